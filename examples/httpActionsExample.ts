@@ -0,0 +1,59 @@
+/// <reference types="node" />
+
+/**
+ * Example: run the HTTP actions against the local mock API
+ *
+ * Starts examples/httpMockServer.ts on a free port, allow-lists it, and calls httpGet, httpPost,
+ * httpPut and httpDelete the way a DECL button would, printing each result and the store writes
+ * made for loadingPath / errorPath. Also shows that URLs outside the allow-list are refused.
+ *
+ * Usage:
+ *   npx tsx examples/httpActionsExample.ts
+ *   or
+ *   npm run example:http
+ */
+
+import type { AddressInfo } from 'net'
+import { createActionContext, loadAction } from '../src/services/actions'
+import { setHttpAllowList } from '../src/services/http'
+import { startMockServer } from './httpMockServer'
+
+async function main(): Promise<void> {
+  const server = await startMockServer(0)
+  const base = `http://localhost:${(server.address() as AddressInfo).port}`
+  setHttpAllowList([base])
+
+  const writes: string[] = []
+  const context = createActionContext({
+    setStoreValue: (path, value) => writes.push(`${path} = ${JSON.stringify(value)}`)
+  })
+  const run = async (name: string, params: Record<string, unknown>) => {
+    writes.length = 0
+    console.log(`${name} ${params.url}`)
+    try {
+      const result = await loadAction(name)!(params, context)
+      console.log('  result:', JSON.stringify(result))
+    } catch (err: unknown) {
+      console.log('  failed:', err instanceof Error ? err.message : err)
+    }
+    if (writes.length > 0) console.log('  store: ', writes.join(', '))
+  }
+
+  try {
+    const state = { loadingPath: 'todos.loading', errorPath: 'todos.error' }
+    await run('httpGet', { url: `${base}/todos`, ...state })
+    await run('httpPost', { url: `${base}/todos`, body: { title: 'Try the HTTP actions' }, ...state })
+    await run('httpPut', { url: `${base}/todos/3`, body: { done: true }, ...state })
+    await run('httpDelete', { url: `${base}/todos/1`, ...state })
+    await run('httpGet', { url: `${base}/todos`, query: { done: true } })
+    await run('httpGet', { url: `${base}/error`, ...state })
+    await run('httpGet', { url: 'https://example.com/not-allowed', ...state })
+  } finally {
+    server.close()
+  }
+}
+
+main().catch((err) => {
+  console.error(err)
+  process.exit(1)
+})
@@ -0,0 +1,123 @@
+/// <reference types="node" />
+
+/**
+ * Local mock API for the HTTP actions (httpGet, httpPost, httpPut, httpDelete)
+ *
+ * Serves an in-memory todo list with CORS enabled, so a generated UI running under `npm run dev`
+ * can call it once the base URL is allow-listed:
+ *
+ *   GET    /todos          → { items: Todo[], count }
+ *   GET    /todos/:id      → Todo (404 when missing)
+ *   POST   /todos          → created Todo (body { title })
+ *   PUT    /todos/:id      → updated Todo (body { title?, done? })
+ *   DELETE /todos/:id      → { deleted: id }
+ *   GET    /error          → 500 with a text body (for error states)
+ *   GET    /slow?ms=2000   → { waited } after a delay (for loading states)
+ *
+ * Usage:
+ *   npx tsx examples/httpMockServer.ts [port]
+ *   or
+ *   npm run mock:http -- [port]
+ * then start the app with VITE_HTTP_ALLOWED_BASES=http://localhost:4010
+ */
+
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'http'
+import { pathToFileURL } from 'url'
+
+const DEFAULT_PORT = 4010
+
+interface Todo {
+  id: number
+  title: string
+  done: boolean
+}
+
+function send(res: ServerResponse, status: number, body: unknown): void {
+  const text = typeof body === 'string' ? body : JSON.stringify(body)
+  res.writeHead(status, {
+    'Content-Type': typeof body === 'string' ? 'text/plain' : 'application/json',
+    'Access-Control-Allow-Origin': '*'
+  })
+  res.end(text)
+}
+
+async function readJson(req: IncomingMessage): Promise<Record<string, unknown>> {
+  let text = ''
+  for await (const chunk of req) text += chunk
+  try {
+    const value = JSON.parse(text || '{}')
+    return value != null && typeof value === 'object' && !Array.isArray(value) ? value : {}
+  } catch {
+    return {}
+  }
+}
+
+/**
+ * Start the mock API.
+ *
+ * @param port - Port to listen on (0 = any free port)
+ * @returns The listening server (close it when done)
+ */
+export function startMockServer(port = DEFAULT_PORT): Promise<Server> {
+  const todos: Todo[] = [
+    { id: 1, title: 'Write the proposal', done: true },
+    { id: 2, title: 'Review the DECL spec', done: false }
+  ]
+  let nextId = 3
+
+  const server = createServer(async (req, res) => {
+    if (req.method === 'OPTIONS') {
+      res.writeHead(204, {
+        'Access-Control-Allow-Origin': '*',
+        'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE',
+        'Access-Control-Allow-Headers': '*'
+      })
+      res.end()
+      return
+    }
+
+    const url = new URL(req.url ?? '/', 'http://localhost')
+    const [resource, idText] = url.pathname.split('/').filter(Boolean)
+    const id = Number(idText)
+    const todo = todos.find((item) => item.id === id)
+
+    if (resource === 'error') return send(res, 500, 'Mock server error')
+    if (resource === 'slow') {
+      const waited = Number(url.searchParams.get('ms') ?? 1000)
+      await new Promise((resolve) => setTimeout(resolve, waited))
+      return send(res, 200, { waited })
+    }
+    if (resource !== 'todos') return send(res, 404, { error: 'Not found' })
+
+    if (req.method === 'GET' && !idText) return send(res, 200, { items: todos, count: todos.length })
+    if (req.method === 'POST' && !idText) {
+      const body = await readJson(req)
+      const created = { id: nextId++, title: String(body.title ?? 'Untitled'), done: false }
+      todos.push(created)
+      return send(res, 201, created)
+    }
+    if (!todo) return send(res, 404, { error: `Todo ${idText} not found` })
+    if (req.method === 'GET') return send(res, 200, todo)
+    if (req.method === 'PUT') {
+      const body = await readJson(req)
+      if (typeof body.title === 'string') todo.title = body.title
+      if (typeof body.done === 'boolean') todo.done = body.done
+      return send(res, 200, todo)
+    }
+    if (req.method === 'DELETE') {
+      todos.splice(todos.indexOf(todo), 1)
+      return send(res, 200, { deleted: id })
+    }
+    send(res, 405, { error: `Method ${req.method} not allowed` })
+  })
+
+  return new Promise((resolve) => server.listen(port, () => resolve(server)))
+}
+
+// Run directly: keep serving until interrupted
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  const port = Number(process.argv[2] ?? DEFAULT_PORT)
+  startMockServer(port).then(() => {
+    console.log(`Mock API listening on http://localhost:${port} (Ctrl+C to stop)`)
+  })
+}
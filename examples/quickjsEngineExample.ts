@@ -0,0 +1,68 @@
+/// <reference types="node" />
+
+/**
+ * Example: run a template's expressions and actions in the QuickJS engine under Node
+ *
+ * Loads public/templates/SamplePanel.yml, evaluates its view expressions (props at their defaults) and
+ * clicks its action a few times through QuickJsEngine (compilationStrategy: 'quickjs'), printing each
+ * result and emitted event. Then shows the sandbox limits: no host APIs, and the CPU, memory and stack
+ * limits stopping runaway code.
+ *
+ * Usage:
+ *   npx tsx examples/quickjsEngineExample.ts
+ *   or
+ *   npm run example:quickjs
+ */
+
+import { readFile } from 'fs/promises'
+import yaml from 'js-yaml'
+import { QuickJsEngine } from '../src/services/quickjsEngine'
+
+interface Template {
+  view: string
+  data: Record<string, { type: string; initial: unknown }>
+  props?: Record<string, { type: string; default?: unknown }>
+  actions?: Record<string, string>
+}
+
+async function main(): Promise<void> {
+  const template = yaml.load(await readFile(new URL('../public/templates/SamplePanel.yml', import.meta.url), 'utf8')) as Template
+  const engine = new QuickJsEngine()
+
+  let data: Record<string, unknown> = Object.fromEntries(
+    Object.entries(template.data).map(([key, field]) => [key, field.initial])
+  )
+  const props: Record<string, unknown> = Object.fromEntries(
+    Object.entries(template.props ?? {}).map(([key, prop]) => [key, prop.default])
+  )
+  const emit = (event: string, payload?: unknown) => console.log(`  emit ${event}`, JSON.stringify(payload))
+  const expressions = [...new Set(Array.from(template.view.matchAll(/\{([^}]+)\}/g), (match) => match[1].trim()))]
+    .filter((expr) => !template.actions?.[expr])
+
+  for (let click = 0; click < 3; click++) {
+    for (const expr of expressions) {
+      console.log(`{${expr}} =`, JSON.stringify(await engine.evaluateExpression(expr, { ...props, ...data })))
+    }
+    for (const [name, code] of Object.entries(template.actions ?? {})) {
+      await engine.executeAction(code, data, (update) => (data = update), { props, emit })
+      console.log(`${name}() ->`, JSON.stringify(data))
+    }
+  }
+
+  console.log('\nLimits (errors are logged by the engine and the expression yields undefined):')
+  const limited = new QuickJsEngine({ cpuLimit: 100, memoryLimitBytes: 4 * 1024 * 1024 })
+  const probes: Array<[string, string]> = [
+    ['host APIs', '[typeof window, typeof document, typeof fetch, typeof process].join(", ")'],
+    ['CPU', '(() => { while (true) {} })()'],
+    ['memory', '(() => { const chunks = []; for (;;) chunks.push(new Array(1e5).fill(1)) })()'],
+    ['stack', '(function recurse() { return recurse() })()']
+  ]
+  for (const [label, expr] of probes) {
+    console.log(`${label}:`, JSON.stringify(await limited.evaluateExpression(expr, {})))
+  }
+}
+
+main().catch((err) => {
+  console.error(err)
+  process.exit(1)
+})
@@ -0,0 +1,91 @@
+/// <reference types="node" />
+
+/**
+ * Benchmark: incremental stream parsing vs. re-parsing the full text on every token
+ *
+ * Feeds a generated spec of N view nodes (default 500) to both parsers one character at a time
+ * and reports the total time and the number of chunks each one emitted. The incremental parser is
+ * timed twice: append() alone, and append() plus the partial() preview the generator reads after
+ * every delta (as streamDeclUpdates does). The full re-parse is quadratic in the response length; at
+ * 500 nodes expect it to take a few minutes.
+ *
+ * Usage:
+ *   npx tsx examples/streamParserBenchmark.ts [nodeCount]
+ *   or
+ *   npm run bench:stream -- [nodeCount]
+ */
+
+import { IncrementalJsonArrayParser, tryParseJsonFromText } from '../src/services/decl'
+
+const DEFAULT_NODE_COUNT = 500
+
+/**
+ * Build a model-style response: a fenced JSON array with one view chunk per node, one data chunk
+ * per field, and a final root node listing all children.
+ */
+function buildResponse(nodeCount: number): string {
+  const chunks: unknown[] = []
+  for (let i = 0; i < nodeCount; i++) {
+    chunks.push({
+      data: { [`field${i}`]: { type: 'STRING', name: `field${i}`, displayName: `Field "${i}"`, value: '' } }
+    })
+    chunks.push({
+      view: [{ key: `node${i}`, type: 'Field', props: { dataBind: `field${i}` } }]
+    })
+  }
+  chunks.push({
+    view: [{ key: 'root', type: 'Form', props: { children: Array.from({ length: nodeCount }, (_, i) => `node${i}`) } }]
+  })
+  const lines = chunks.map((chunk) => `  ${JSON.stringify(chunk)}`)
+  return `Here is the UI:\n\`\`\`json\n[\n${lines.join(',\n')}\n]\n\`\`\`\n`
+}
+
+/**
+ * Previous approach: accumulate the text and re-parse all of it after every delta.
+ */
+function runFullReparse(response: string): number {
+  let text = ''
+  let chunkCount = 0
+  for (const char of response) {
+    text += char
+    const value = tryParseJsonFromText(text).value
+    if (Array.isArray(value) && value.length > chunkCount) {
+      chunkCount = value.length
+    }
+  }
+  return chunkCount
+}
+
+/**
+ * @param withPreview - Also read the partially streamed chunk after every delta, like the generator
+ */
+function runIncremental(response: string, withPreview: boolean): number {
+  const parser = new IncrementalJsonArrayParser()
+  let chunkCount = 0
+  for (const char of response) {
+    chunkCount += parser.append(char).length
+    if (withPreview) {
+      parser.partial()
+    }
+  }
+  return chunkCount
+}
+
+function measure(label: string, run: () => number): void {
+  const start = performance.now()
+  const chunkCount = run()
+  const elapsed = performance.now() - start
+  console.log(`${label.padEnd(16)} ${elapsed.toFixed(1).padStart(10)} ms   ${chunkCount} chunks`)
+}
+
+function main() {
+  const nodeCount = Number(process.argv[2]) || DEFAULT_NODE_COUNT
+  const response = buildResponse(nodeCount)
+
+  console.log(`📏 ${nodeCount} nodes, ${response.length} characters, fed one character at a time\n`)
+  measure('incremental', () => runIncremental(response, false))
+  measure('+ partial()', () => runIncremental(response, true))
+  measure('full re-parse', () => runFullReparse(response))
+}
+
+main()
@@ -0,0 +1,272 @@
+/// <reference types="node" />
+
+/**
+ * Check: template loops and conditionals render the same with the BLOB, INLINE and QUICKJS strategies
+ *
+ * Renders for-each, nested for-each, filtered for-each, keyed for-each and if/else-if/else templates
+ * for a few data snapshots, and compares the React trees of:
+ * - blob:             the code compileTemplateToJS generates (the reference)
+ * - inline:           the compiler's InlineJsEngine, one evaluateExpression call per expression
+ * - quickjs:          the compiler's QuickJsEngine
+ * - batch (stand-in): a local engine with evaluateExpressions, evaluating like jsEngineWorker.ts (strict
+ *                     mode, context entries as destructured params). It covers the compiler's side of
+ *                     batch evaluation (one call per render, results indexed per loop iteration) only
+ * Exits with code 1 if any differ.
+ *
+ * Not covered: the SANDBOX and WORKER engines themselves (public/sandbox.js, jsEngineWorker.ts). They
+ * run expressions as blob: scripts and modules in an iframe or worker, which need a browser.
+ *
+ * src/services/compiler.ts is loaded through Vite (import.meta.env, .tsx components), with happy-dom
+ * for the DOMParser the compiler reads views with.
+ *
+ * Usage:
+ *   npx tsx examples/templateDirectivesParity.ts
+ *   or
+ *   npm run test:directives
+ */
+
+import { Window } from 'happy-dom'
+import React, { Fragment, isValidElement, type ReactNode } from 'react'
+import { renderToStaticMarkup } from 'react-dom/server'
+import { createServer } from 'vite'
+import type { JSEngine } from '../src/services/jsEngine'
+
+interface Template {
+  view: string
+  data: Record<string, { type: string; initial: unknown }>
+}
+
+// The createComponent callbacks used here (see CreateComponentDeps in compiler.ts)
+interface TemplateDeps {
+  renderTemplate: (
+    data: Record<string, unknown>,
+    actions: Record<string, never>,
+    imports: Record<string, never>,
+    expressionResults: Map<string, unknown>,
+    props: Record<string, unknown>
+  ) => ReactNode
+  evaluateExpressions: (
+    view: string,
+    data: Record<string, unknown>,
+    props: Record<string, unknown>,
+    actions: Record<string, never>
+  ) => Promise<Map<string, unknown>>
+}
+
+interface Compiler {
+  compileTemplateToJS: (config: Template) => string
+  createEngineTemplateDeps: (config: Template, getEngine: () => JSEngine) => TemplateDeps
+  getJSEngine: (strategy: 'inline' | 'quickjs') => JSEngine
+}
+
+interface ParityCase {
+  name: string
+  view: string
+  /** Data snapshots to render */
+  snapshots: Array<Record<string, unknown>>
+}
+
+const todos = [
+  { id: 7, title: 'Write', done: true },
+  { id: 3, title: 'Test', done: false },
+  { id: 5, title: 'Ship', done: false }
+]
+
+const cases: ParityCase[] = [
+  {
+    name: 'for-each',
+    view: '<ul><li for-each="(todo, i) in todos">{i + 1}. {todo.title}</li></ul>',
+    snapshots: [{ todos }, { todos: [] }]
+  },
+  {
+    name: 'nested for-each',
+    view: `<section>
+  <div for-each="(group, g) in groups">
+    <h3>{g}: {group.name}</h3>
+    <span for-each="(tag, t) in group.tags" title="{group.name}">{g}.{t} {tag}{t < group.tags.length - 1 ? ', ' : ''}</span>
+  </div>
+</section>`,
+    snapshots: [{ groups: [{ name: 'a', tags: ['x', 'y'] }, { name: 'b', tags: [] }, { name: 'c', tags: ['z'] }] }]
+  },
+  {
+    name: 'filtered for-each',
+    view: '<ul><li for-each="todo in todos" if="!todo.done">{todo.title}</li><li>{todos.length} total</li></ul>',
+    snapshots: [{ todos }, { todos: todos.filter((todo) => todo.done) }]
+  },
+  {
+    name: 'keyed for-each',
+    view: '<ul><li for-each="todo in todos" key="{todo.id}" class="{todo.done ? \'done\' : \'open\'}">{todo.title}</li></ul>',
+    snapshots: [{ todos }, { todos: [...todos].reverse() }]
+  },
+  {
+    name: 'if/else-if/else',
+    view: `<div>
+  <p if="count > 1">{count} items</p>
+  <p else-if="count === 1">One item</p>
+  <p else>No items</p>
+  <b for-each="n in [1, 2, 3]" if="n <= count">{n}</b>
+  <i for-each="n in [1, 2, 3]"><em if="n === count">current</em><em else>{n}</em></i>
+</div>`,
+    snapshots: [{ count: 0 }, { count: 1 }, { count: 2 }]
+  },
+  {
+    name: 'throwing iteration',
+    view: '<ul><li for-each="row in rows" if="row.value.toFixed(1) !== \'2.0\'">{row.value.toFixed(1)} of {row.total}</li></ul>',
+    snapshots: [{ rows: [{ value: 1, total: 3 }, {}, { value: 2, total: 3 }, { value: 3 }] }]
+  }
+]
+
+const IDENTIFIER_PATTERN = /^[a-zA-Z_$][a-zA-Z0-9_$]*$/
+
+// The function jsEngineWorker.ts imports per expression, as strict code instead of a blob: module
+function evaluateStrict(expr: string, context: Record<string, unknown>): unknown {
+  const paramNames = Object.keys(context).filter((key) => IDENTIFIER_PATTERN.test(key))
+  try {
+    return new Function(`'use strict'\nreturn ({ ${paramNames.join(', ')} }) => (${expr}\n)`)()(context)
+  } catch {
+    return undefined
+  }
+}
+
+const batchStandIn: JSEngine = {
+  evaluateExpression: async (expr, context) => evaluateStrict(expr, context),
+  evaluateExpressions: async (expressions, context) => expressions.map((expr) => evaluateStrict(expr, context)),
+  executeAction: () => Promise.reject(new Error('Actions are not part of this check'))
+}
+
+// React tree with fragments and nested arrays flattened and adjacent text merged, since the renderer
+// wraps loop items in a Fragment where the generated code returns an array
+type Snapshot = string | { type: string; key: string | null; props: string; children: Snapshot[] }
+
+function toSnapshots(node: ReactNode): Snapshot[] {
+  if (node === null || node === undefined || typeof node === 'boolean') {
+    return []
+  }
+  if (typeof node === 'string' || typeof node === 'number' || typeof node === 'bigint') {
+    return [String(node)]
+  }
+  if (Array.isArray(node)) {
+    const snapshots: Snapshot[] = []
+    node.flatMap(toSnapshots).forEach((snapshot) => {
+      const last = snapshots.length - 1
+      if (typeof snapshot === 'string' && typeof snapshots[last] === 'string') {
+        snapshots[last] += snapshot
+      } else {
+        snapshots.push(snapshot)
+      }
+    })
+    return snapshots.filter((snapshot) => snapshot !== '')
+  }
+  if (isValidElement<{ children?: ReactNode }>(node)) {
+    const { children, ...props } = node.props
+    if (node.type === Fragment) {
+      return toSnapshots([children])
+    }
+    return [{ type: String(node.type), key: node.key, props: JSON.stringify(props), children: toSnapshots([children]) }]
+  }
+  throw new Error(`Unexpected node in the rendered tree: ${String(node)}`)
+}
+
+/**
+ * First difference between two trees, or null if they match. Keys are compared where the expected
+ * (generated) tree has one: the generated code keys loop items only, the renderer also keys static
+ * children by position, which React does not use.
+ */
+function findDifference(expected: Snapshot[], actual: Snapshot[], path: string): string | null {
+  for (let index = 0; index < Math.max(expected.length, actual.length); index++) {
+    const [want, got] = [expected[index], actual[index]]
+    const at = `${path} > ${index}`
+    if (want === undefined || got === undefined || typeof want === 'string' || typeof got === 'string') {
+      if (want !== got) {
+        return `${at}: expected ${JSON.stringify(want)}, got ${JSON.stringify(got)}`
+      }
+      continue
+    }
+    if (want.type !== got.type || want.props !== got.props) {
+      return `${at}: expected <${want.type} ${want.props}>, got <${got.type} ${got.props}>`
+    }
+    if (want.key !== null && want.key !== got.key) {
+      return `${at} <${want.type}>: expected key ${want.key}, got ${got.key}`
+    }
+    const difference = findDifference(want.children, got.children, `${at} <${want.type}>`)
+    if (difference) {
+      return difference
+    }
+  }
+  return null
+}
+
+async function renderBlob(compiler: Compiler, config: Template, data: Record<string, unknown>): Promise<ReactNode> {
+  const code = compiler.compileTemplateToJS(config)
+  const { default: createCompiledComponent } = (await import(`data:text/javascript,${encodeURIComponent(code)}`)) as {
+    default: (config: Template, deps: object) => TemplateDeps
+  }
+  // createComponent returns the callbacks instead of a component, so they can be called directly
+  const deps = createCompiledComponent(config, { React, createComponent: (_config: Template, deps: TemplateDeps) => deps })
+  return deps.renderTemplate(data, {}, {}, new Map(), {})
+}
+
+async function renderWithEngine(
+  compiler: Compiler,
+  config: Template,
+  data: Record<string, unknown>,
+  engine: JSEngine
+): Promise<ReactNode> {
+  const deps = compiler.createEngineTemplateDeps(config, () => engine)
+  const expressionResults = await deps.evaluateExpressions(config.view, data, {}, {})
+  return deps.renderTemplate(data, {}, {}, expressionResults, {})
+}
+
+async function main(): Promise<void> {
+  const window = new Window()
+  Object.assign(globalThis, { DOMParser: window.DOMParser, Node: window.Node })
+  const server = await createServer({
+    appType: 'custom',
+    logLevel: 'error',
+    server: { middlewareMode: true, hmr: false },
+    optimizeDeps: { noDiscovery: true }
+  })
+
+  let failures = 0
+  try {
+    const compiler = (await server.ssrLoadModule('/src/services/compiler.ts')) as Compiler
+    const engines: Record<string, JSEngine> = {
+      inline: compiler.getJSEngine('inline'),
+      quickjs: compiler.getJSEngine('quickjs'),
+      'batch (stand-in)': batchStandIn
+    }
+    for (const { name, view, snapshots } of cases) {
+      for (const data of snapshots) {
+        const config: Template = {
+          view,
+          data: Object.fromEntries(
+            Object.entries(data).map(([key, value]) => [key, { type: Array.isArray(value) ? 'array' : typeof value, initial: value }])
+          )
+        }
+        const expected = await renderBlob(compiler, config, data)
+        console.log(`${name}: ${renderToStaticMarkup(expected)}`)
+        for (const [engineName, engine] of Object.entries(engines)) {
+          const actual = await renderWithEngine(compiler, config, data, engine)
+          const difference = findDifference(toSnapshots(expected), toSnapshots(actual), 'root')
+          if (difference) {
+            failures++
+          }
+          console.log(`  ${engineName}: ${difference ?? 'same'}`)
+        }
+      }
+    }
+  } finally {
+    await server.close()
+    await window.happyDOM.close()
+  }
+
+  console.log(failures === 0 ? '\nEvery engine renders the same as the generated code' : `\n${failures} renders differ from the generated code`)
+  if (failures > 0) {
+    process.exitCode = 1
+  }
+}
+
+main().catch((err) => {
+  console.error(err)
+  process.exit(1)
+})
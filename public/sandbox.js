@@ -1,28 +1,28 @@
 // Global storage for execution results (keyed by request ID)
 window.__sandboxResults = window.__sandboxResults || {};
 
+// Serialize context values as const declarations for injection into a blob script
+function buildContextAssignments(contextObj) {
+  return Object.keys(contextObj).map(name => {
+    const value = contextObj[name];
+    // Serialize the value to be injectable into code
+    let serializedValue;
+    if (typeof value === 'string') {
+      serializedValue = JSON.stringify(value);
+    } else if (typeof value === 'number' || typeof value === 'boolean' || value === null) {
+      serializedValue = String(value);
+    } else {
+      serializedValue = JSON.stringify(value);
+    }
+    return `const ${name} = ${serializedValue};`;
+  }).join('\n            ');
+}
+
 // Helper function to execute code via Blob URL (CSP-compliant alternative to new Function)
 function executeViaBlob(code, contextObj, resultId) {
   return new Promise((resolve, reject) => {
     try {
-      // Build parameter names
-      const paramNames = Object.keys(contextObj);
-      
-      // Serialize context values for injection into the blob script
-      // We need to handle different types properly and create variable assignments
-      const contextAssignments = paramNames.map(name => {
-        const value = contextObj[name];
-        // Serialize the value to be injectable into code
-        let serializedValue;
-        if (typeof value === 'string') {
-          serializedValue = JSON.stringify(value);
-        } else if (typeof value === 'number' || typeof value === 'boolean' || value === null) {
-          serializedValue = String(value);
-        } else {
-          serializedValue = JSON.stringify(value);
-        }
-        return `const ${name} = ${serializedValue};`;
-      }).join('\n            ');
+      const contextAssignments = buildContextAssignments(contextObj);
       
       // Create code that executes and stores result
       // Inject context variables as const declarations so they're available in the code expression
@@ -80,15 +80,40 @@ function executeViaBlob(code, contextObj, resultId) {
   });
 }
 
+// Evaluate a batch of expressions against one context in a single blob script.
+// Each expression has its own try/catch; if the script cannot run at all (a syntax error in one
+// expression), fall back to one blob per expression so the others still get their values.
+function executeBatchViaBlob(expressions, contextObj, resultId) {
+  const batchCode = '[' + expressions.map(expr => `
+              (() => { try { return { result: (${expr}) }; } catch (error) { return { error: error.message }; } })()`
+  ).join(',') + ']';
+  return executeViaBlob(batchCode, contextObj, resultId).catch(() =>
+    Promise.all(expressions.map((expr, index) =>
+      executeViaBlob(expr, contextObj, `${resultId}:${index}`)
+        .then(result => ({ result }))
+        .catch(error => ({ error: error.message }))
+    ))
+  );
+}
+
+// Functions and symbols cannot be posted to the host
+function toCloneable(value) {
+  return typeof value === 'function' || typeof value === 'symbol' ? undefined : value;
+}
+
 // Global registry for setData callbacks (keyed by request ID)
 window.__sandboxSetDataCallbacks = window.__sandboxSetDataCallbacks || {};
 
+// Global registry for action contexts ({ props, payload, emit }, keyed by request ID)
+window.__sandboxActionContexts = window.__sandboxActionContexts || {};
+
 // Helper function to execute action code via Blob URL
-function executeActionViaBlob(actionCode, data, setDataProxy, resultId) {
+function executeActionViaBlob(actionCode, data, setDataProxy, actionContext, resultId) {
   return new Promise((resolve, reject) => {
     try {
-      // Register the setData callback globally so blob script can access it
+      // Register the setData callback and action context globally so blob script can access them
       window.__sandboxSetDataCallbacks[resultId] = setDataProxy;
+      window.__sandboxActionContexts[resultId] = actionContext;
       
       // Serialize data for injection
       const serializedData = JSON.stringify(data);
@@ -103,8 +128,9 @@ function executeActionViaBlob(actionCode, data, setDataProxy, resultId) {
             if (typeof setData !== 'function') {
               throw new Error('setData callback not available');
             }
+            const actionContext = window.__sandboxActionContexts['${resultId}'];
             const actionFunc = ${actionCode};
-            actionFunc(data, setData);
+            actionFunc(data, setData, actionContext);
             window.__sandboxResults['${resultId}'] = { success: true };
           } catch (error) {
             window.__sandboxResults['${resultId}'] = { success: false, error: error.message };
@@ -125,6 +151,7 @@ function executeActionViaBlob(actionCode, data, setDataProxy, resultId) {
           const result = window.__sandboxResults[resultId];
           delete window.__sandboxResults[resultId];
           delete window.__sandboxSetDataCallbacks[resultId];
+          delete window.__sandboxActionContexts[resultId];
           URL.revokeObjectURL(blobUrl);
           document.body.removeChild(script);
           
@@ -145,12 +172,14 @@ function executeActionViaBlob(actionCode, data, setDataProxy, resultId) {
         document.body.removeChild(script);
         delete window.__sandboxResults[resultId];
         delete window.__sandboxSetDataCallbacks[resultId];
+        delete window.__sandboxActionContexts[resultId];
         reject(new Error('Failed to load script'));
       };
       
       document.body.appendChild(script);
     } catch (error) {
       delete window.__sandboxSetDataCallbacks[resultId];
+      delete window.__sandboxActionContexts[resultId];
       reject(error);
     }
   });
@@ -163,9 +192,33 @@ window.addEventListener('message', function(event) {
     return;
   }
   
-  const { type, id, code, context, actionCode, data } = event.data;
+  const { type, id, code, context, actionCode, data, expressions, props, payload } = event.data;
   
-  if (type === 'SANDBOX_EVAL') {
+  if (type === 'SANDBOX_EVAL_BATCH') {
+    // Evaluate all expressions of a render against the same context snapshot in one round trip
+    const contextObj = {};
+    if (context) {
+      Object.keys(context).forEach(key => {
+        if (/^[a-zA-Z_$][a-zA-Z0-9_$]*$/.test(key)) {
+          contextObj[key] = context[key];
+        }
+      });
+    }
+
+    executeBatchViaBlob(expressions, contextObj, id).then(results => {
+      const cloneable = results.map(({ result, error }) => error ? { error } : { result: toCloneable(result) });
+      try {
+        window.parent.postMessage({ type: 'SANDBOX_BATCH_RESULT', id: id, results: cloneable }, '*');
+      } catch (error) {
+        // A result held something that cannot be cloned (e.g. an object with methods)
+        window.parent.postMessage({
+          type: 'SANDBOX_BATCH_RESULT',
+          id: id,
+          results: cloneable.map(() => ({ error: error.message }))
+        }, '*');
+      }
+    });
+  } else if (type === 'SANDBOX_EVAL') {
     // Create context object
     const contextObj = {};
     if (context) {
@@ -221,8 +274,22 @@ window.addEventListener('message', function(event) {
       }, '*');
     };
     
+    // emit is forwarded the same way; the host calls the matching on<Event> prop
+    const actionContext = {
+      props: props || {},
+      payload: payload,
+      emit: function(eventName, eventPayload) {
+        window.parent.postMessage({
+          type: 'SANDBOX_INVOKE_HOST',
+          id: id,
+          callbackName: 'emit',
+          args: [eventName, eventPayload]
+        }, '*');
+      }
+    };
+    
     // Execute via Blob URL
-    executeActionViaBlob(actionCode, data, setDataProxy, id)
+    executeActionViaBlob(actionCode, data, setDataProxy, actionContext, id)
       .then(() => {
         // Signal that action execution completed (setData invocations are handled separately)
         window.parent.postMessage({
@@ -1,9 +1,11 @@
-import { Router, Route } from './components/react/Router'
+import { Router, Route, Routes } from './components/react/Router'
 import BreadcrumbNav from './components/react/BreadcrumbNav'
 import Home from './pages/Home'
 import ReactGenExample from './pages/ReactGenExample'
 import DeclExample from './pages/DeclExample'
 import DeclGenExample from './pages/DeclGenExample'
+import DeclShareView from './pages/DeclShareView'
+import NotFound from './pages/NotFound'
 import { Toaster } from './components/ui/sonner'
 
 function App() {
@@ -12,10 +14,13 @@ function App() {
       <div className="h-screen bg-gray-50 flex flex-col">
         <BreadcrumbNav />
         <div className="flex-1 overflow-auto">
-          <Route path="/" component={<Home />} />
-          <Route path="/decl-gen" component={<DeclGenExample />} />
-          <Route path="/react-gen" component={<ReactGenExample />} />
-          <Route path="/decl" component={<DeclExample />} />
+          <Routes notFound={<NotFound />}>
+            <Route path="/" component={<Home />} />
+            <Route path="/decl-gen" component={<DeclGenExample />} />
+            <Route path="/decl-share" component={<DeclShareView />} />
+            <Route path="/react-gen" component={<ReactGenExample />} />
+            <Route path="/decl" component={<DeclExample />} />
+          </Routes>
         </div>
         <Toaster />
       </div>
@@ -5,12 +5,13 @@ interface DeclButtonProps {
   variant?: 'default' | 'destructive' | 'outline' | 'secondary' | 'ghost' | 'link'
   size?: 'default' | 'sm' | 'lg' | 'icon'
   onClick?: () => void
+  disabled?: boolean
   className?: string
 }
 
-function DeclButton({ text, variant, size, onClick, className, ...props }: DeclButtonProps) {
+function DeclButton({ text, variant, size, onClick, disabled, className, ...props }: DeclButtonProps) {
   return (
-    <Button variant={variant} size={size} onClick={onClick} className={className} {...props}>
+    <Button variant={variant} size={size} onClick={onClick} disabled={disabled} className={className} {...props}>
       {text}
     </Button>
   )
@@ -9,6 +9,7 @@ import { SelectTrigger } from '../ui/select'
 import { Textarea } from '../ui/textarea'
 import { Checkbox } from '../ui/checkbox'
 import { cn } from '@/lib/utils'
+import type { PropertyRules } from '../../services/decl/rules'
 
 export type PropertyType =
   | 'text'
@@ -36,6 +37,10 @@ export interface Property {
   placeholder?: string
   description?: string
   options?: SelectionOption[]
+  /** Validation rules, checked on every write (see services/decl/rules.ts) */
+  rules?: PropertyRules
+  /** Message of the first failed rule, set together with valid: false */
+  error?: string
 }
 
 export interface DeclFieldProps {
@@ -173,7 +178,7 @@ function DeclField({ property, onChange, id: idProp, className }: DeclFieldProps
           </FieldDescription>
         )}
         {invalid && (
-          <FieldError>Validation failed</FieldError>
+          <FieldError>{property.error ?? 'Validation failed'}</FieldError>
         )}
       </FieldWrapper>
     )
@@ -189,7 +194,7 @@ function DeclField({ property, onChange, id: idProp, className }: DeclFieldProps
         <FieldDescription>{property.description}</FieldDescription>
       )}
       {invalid && (
-        <FieldError>Validation failed</FieldError>
+        <FieldError>{property.error ?? 'Validation failed'}</FieldError>
       )}
     </FieldWrapper>
   )
@@ -2,13 +2,20 @@
 // Each component is dynamically imported so Vite can create separate chunks
 // This keeps the main bundle small and loads components on-demand
 
+import React from 'react'
 import {
   type DeclNode,
   type DeclData,
+  type DeclScope,
+  type DeclStoreWriteOptions,
   renderDeclNodes,
   createDataBind,
-  createActionBind
+  createActionBind,
+  createItemScope,
+  isFormActionPending,
+  resolveScopedPath
 } from '../../services/decl'
+import type { ActionHandler, ActionHistory, ActionRouter } from '../../services/actions'
 
 // JSON Schema type for component parameters (flat Record of prop name to schema)
 export type JSONSchema = Record<string, any>
@@ -17,9 +24,24 @@ export type JSONSchema = Record<string, any>
 export interface RenderContext {
   declNodes: Map<string, DeclNode>
   loadedComponents: Map<string, any>
-  loadedActions: Map<string, (...args: any[]) => any>
+  loadedActions: Map<string, ActionHandler<any, any>>
   dataStore: DeclData
-  setDataStore: (updater: (prev: DeclData) => DeclData) => void
+  /** Write to the store; writes sharing options.transaction form one undo entry */
+  setDataStore: (updater: (prev: DeclData) => DeclData, options?: DeclStoreWriteOptions) => void
+  /** Names bound by enclosing Repeat rows (item path, index); undefined outside a Repeat */
+  scope?: DeclScope
+  /** App router passed to actions (navigate); actions fall back to the location hash without it */
+  router?: ActionRouter
+  /** Latest store for actions that run after the render that bound them (defaults to dataStore) */
+  getDataStore?: () => DeclData
+  /** Aborted when the rendered spec is replaced or unmounted; passed to actions */
+  signal?: AbortSignal
+  /** Key of the node whose props are being resolved (set by renderDeclNode) */
+  nodeKey?: string
+  /** Undo/redo of the store, for the undo and redo actions */
+  history?: ActionHistory
+  /** Render only: actions are not bound and binds never write (e.g. a spec opened from a shared link) */
+  readOnly?: boolean
 }
 
 /**
@@ -58,7 +80,8 @@ const componentImportMap: Record<string, ComponentDefinition> = {
       children: {
         type: 'array',
         items: {
-          type: 'string'
+          type: 'string',
+          format: 'node-key'
         },
         description: 'Array of component IDs (keys) that should be rendered as children when condition is true'
       }
@@ -97,9 +120,13 @@ const componentImportMap: Record<string, ComponentDefinition> = {
         description: 'Size of the button',
         default: 'default'
       },
+      disabled: {
+        type: 'boolean',
+        description: 'Disable the button. Buttons running a submit for a Form with a dataBind are disabled automatically while it is submitting'
+      },
       onClick: {
         type: 'object',
-        description: 'Action to perform when button is clicked',
+        description: 'Action to perform when button is clicked, or an array of actions run in sequence (stops at the first failure)',
         properties: {
           name: {
             type: 'string',
@@ -107,7 +134,19 @@ const componentImportMap: Record<string, ComponentDefinition> = {
           },
           params: {
             type: 'object',
-            description: 'Parameters to pass to the action'
+            description: 'Parameters to pass to the action ("{result.field}" reads the latest result of an earlier action)'
+          },
+          when: {
+            type: 'string',
+            description: 'Optional expression; the action is skipped when it is falsy (e.g. "{$form.profileForm.dirty}")'
+          },
+          onSuccess: {
+            type: 'object',
+            description: 'Optional action (or array) run after this one succeeds'
+          },
+          onError: {
+            type: 'object',
+            description: 'Optional action (or array) run when this one fails; "{error}" holds the message'
           }
         },
         required: ['name']
@@ -118,6 +157,7 @@ const componentImportMap: Record<string, ComponentDefinition> = {
     // Process props: bind onClick action
     resolveProps: (props, context) => {
       const processed = { ...props }
+      if (isFormActionPending(processed.onClick, context.dataStore, context.declNodes)) processed.disabled = true
       const onClick = createActionBind(processed.onClick, context)
       if (onClick) processed.onClick = onClick
       else if (processed.onClick != null) delete processed.onClick
@@ -139,28 +179,32 @@ const componentImportMap: Record<string, ComponentDefinition> = {
       action: {
         type: 'array',
         items: {
-          type: 'string'
+          type: 'string',
+          format: 'node-key'
         },
         description: 'Array of component IDs (keys) that should be rendered as action elements in the card header'
       },
       content: {
         type: 'array',
         items: {
-          type: 'string'
+          type: 'string',
+          format: 'node-key'
         },
         description: 'Array of component IDs (keys) that should be rendered as content inside the card body'
       },
       footer: {
         type: 'array',
         items: {
-          type: 'string'
+          type: 'string',
+          format: 'node-key'
         },
         description: 'Array of component IDs (keys) that should be rendered as footer elements at the bottom of the card'
       },
       children: {
         type: 'array',
         items: {
-          type: 'string'
+          type: 'string',
+          format: 'node-key'
         },
         description: 'Array of component IDs (keys) that should be rendered as children inside the card (alternative to content)'
       }
@@ -288,6 +332,9 @@ const componentImportMap: Record<string, ComponentDefinition> = {
             processed.placeholder = (bound as { placeholder?: string }).placeholder
           }
         }
+        if (context.readOnly) {
+          processed.readOnly = true
+        }
         // Wrap setter to extract value from event if it's a React event object
         processed.onChange = (e: any) => {
           const value = e?.target?.value !== undefined ? e.target.value : e
@@ -302,10 +349,11 @@ const componentImportMap: Record<string, ComponentDefinition> = {
   },
   Field: {
     name: 'Field',
-    description: 'A form field driven by a Property in the store. dataBind is the dot-separated path to that Property object (e.g. "form.fields.email"). The store at that path must hold { type, name, value, readOnly?, valid?, disabled?, placeholder?, description?, options? }. Value updates write back to property.value at the same path.',
+    description: 'A form field driven by a Property in the store. dataBind is the dot-separated path to that Property object (e.g. "form.fields.email"). The store at that path must hold { type, name, value, readOnly?, valid?, disabled?, placeholder?, description?, options?, rules? }. Value updates write back to property.value at the same path. rules { required?, pattern? (regex or "email" | "url"), min?, max?, minLength?, maxLength?, matches? (store path of another Property), message? } are checked on every change and the error is shown under the field.',
     params: {
       dataBind: {
         type: 'string',
+        format: 'property-path',
         description: 'Dot-separated path in the data store to a Property object (e.g. "form.fields.email"). The object must have type, name, and value; optional: readOnly, valid, disabled, placeholder, description, options.'
       },
       id: { type: 'string', description: 'Optional id for the control (defaults to generated from property.name)' },
@@ -321,25 +369,81 @@ const componentImportMap: Record<string, ComponentDefinition> = {
         const property = binding.get()
         processed.property =
           property != null && typeof property === 'object'
-            ? { ...property }
+            ? { ...property, ...(context.readOnly && { readOnly: true }) }
             : { type: 'text', name: '', value: undefined }
         const valueBinding = createDataBind(`${dataBind}.value`, context)
         processed.onChange = (value: unknown) => valueBinding.set(value)
         delete processed.dataBind
+      } else {
+        // No binding yet (e.g. a partial node still streaming)
+        processed.property = { type: 'text', name: '', value: undefined }
       }
       return processed
     }
   },
+  Repeat: {
+    name: 'Repeat',
+    description: 'Renders the template node once per item of a store array. Inside the template (and its descendants), "{item.x}" reads a field of the current item, "{index}" is the row index, and a Field dataBind "item.x" binds to the current item\'s Property so edits write back to that element. Use "as" to rename item (e.g. for nested Repeats).',
+    params: {
+      dataBind: {
+        type: 'string',
+        format: 'array-path',
+        description: 'Dot-separated path in the data store to an array (e.g. "contacts"), or "item.x" inside an outer Repeat',
+        required: true
+      },
+      template: {
+        type: 'string',
+        format: 'node-key',
+        description: 'Key of the node rendered for each item (not rendered on its own)',
+        required: true
+      },
+      as: {
+        type: 'string',
+        description: 'Name the current item is bound to in the template (default "item")'
+      },
+      className: { type: 'string', description: 'CSS classes for a wrapper element around the rows' }
+    },
+    load: () => import('../react/Repeat'),
+    // Process props: render the template once per item, each row with its own scope
+    resolveProps: (props, context) => {
+      const { dataBind, template, as, ...processed } = props
+      if (typeof dataBind !== 'string' || typeof template !== 'string') {
+        return { ...processed, children: [] }
+      }
+
+      const listPath = resolveScopedPath(dataBind, context.scope)
+      const items = createDataBind(dataBind, context).get()
+      const name = typeof as === 'string' && as ? as : 'item'
+      processed.children = Array.isArray(items)
+        ? items.map((_, index) =>
+            React.createElement(
+              React.Fragment,
+              { key: index },
+              ...renderDeclNodes([template], {
+                ...context,
+                scope: createItemScope(context.scope, name, `${listPath}.${index}`, index)
+              })
+            )
+          )
+        : []
+      return processed
+    }
+  },
   Form: {
     name: 'Form',
-    description: 'A form component that wraps form elements and renders children (use a Button with onClick for submit action)',
+    description: 'A form component that wraps form elements and renders children (use a Button with onClick for submit action). With a dataBind, the form tracks state for that data subtree at "$form.<form node key>": { dirty, touched, submitting, submitted, error } (e.g. "{$form.profileForm.dirty}"). Submit buttons are disabled while submitting; use the resetForm action to restore the initial values.',
     params: {
       children: {
         type: 'array',
         items: {
-          type: 'string'
+          type: 'string',
+          format: 'node-key'
         },
         description: 'Array of component IDs (keys) that should be rendered as children inside the form'
+      },
+      dataBind: {
+        type: 'string',
+        description: 'Optional dot-separated path in the data store to the data subtree this form edits (e.g. "profile"). Enables form state tracking.'
       }
     },
     // @ts-ignore - Dynamic import of TSX file, resolved at runtime by Vite
@@ -350,6 +454,8 @@ const componentImportMap: Record<string, ComponentDefinition> = {
         const childrenKeys = processed.children.filter((c): c is string => typeof c === 'string')
         processed.children = renderDeclNodes(childrenKeys, context)
       }
+      // Form state is tracked by the data binds and actions (services/decl/forms.ts)
+      delete processed.dataBind
       return processed
     }
   },
@@ -1,5 +1,5 @@
 import { useState, useEffect } from 'react'
-import { useRouter } from './Router'
+import { useRouter } from './useRouter'
 import {
   Breadcrumb,
   BreadcrumbItem,
@@ -30,7 +30,7 @@ import { getApiKey, setApiKey, getApiKeyFromEnvironment } from '../../services/o
 
 export default function BreadcrumbNav() {
   const router = useRouter()
-  const currentRoute = router.currentRoute
+  const currentRoute = router.path
   const currentPage = getPageMetadata(currentRoute)
   const homePage = getPageMetadata('/')!
   const nonHomePages = getNonHomePages()
@@ -0,0 +1,69 @@
+import type { DeclSpec } from '../../services/decl'
+import { Button } from '../ui/button'
+
+export interface DeclChatTurn {
+  /** Prompt or refinement instruction sent for this turn */
+  prompt: string
+  mode: 'generate' | 'refine'
+  /** Spec after this turn completed */
+  spec: DeclSpec
+  /** Model that produced the spec, when the provider reports it */
+  model?: string
+}
+
+interface DeclChatHistoryProps {
+  turns: DeclChatTurn[]
+  /** Restore the spec of the turn at index and drop later turns */
+  onRestore: (index: number) => void
+  disabled?: boolean
+}
+
+function DeclChatHistory({ turns, onRestore, disabled }: DeclChatHistoryProps) {
+  return (
+    <div className="w-64 flex-shrink-0 border-r border-gray-200 bg-white flex flex-col">
+      <div className="py-2 px-4 border-b border-gray-200 flex-shrink-0">
+        <h2 className="text-sm font-semibold text-gray-800">History</h2>
+      </div>
+      <div className="flex-1 overflow-auto p-2 space-y-2">
+        {turns.length === 0 ? (
+          <div className="p-2 text-xs text-gray-500">
+            Generate a UI, then use Refine to edit it with follow-up prompts.
+          </div>
+        ) : (
+          turns.map((turn, index) => {
+            const isCurrent = index === turns.length - 1
+            return (
+              <div
+                key={index}
+                className={`rounded-md border p-2 text-sm ${isCurrent ? 'border-blue-300 bg-blue-50' : 'border-gray-200 bg-gray-50'}`}
+              >
+                <div className="flex items-center justify-between mb-1">
+                  <span className="text-xs font-medium uppercase text-gray-500">
+                    {index + 1}. {turn.mode}
+                  </span>
+                  {!isCurrent && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-6 px-2 text-xs"
+                      disabled={disabled}
+                      onClick={() => onRestore(index)}
+                    >
+                      Undo to here
+                    </Button>
+                  )}
+                </div>
+                <div className="text-gray-800 break-words">{turn.prompt}</div>
+                <div className="mt-1 text-xs text-gray-400">
+                  {turn.spec.view.length} nodes, {Object.keys(turn.spec.data).length} data keys
+                </div>
+              </div>
+            )
+          })
+        )}
+      </div>
+    </div>
+  )
+}
+
+export default DeclChatHistory
@@ -1,36 +1,24 @@
 import React, { useState, useEffect } from 'react'
-import yaml from 'js-yaml'
-import { compileTemplate, type ComponentDefinition, type CompilationStrategy, COMPILATION_STRATEGIES } from '../../services/compiler'
+import { compileTemplate, loadTemplate, type CompilationStrategy } from '../../services/compiler'
 
 interface DeclComponentProps {
   src: string
+  /** Overrides the template's own compilationStrategy (which defaults to BLOB) */
   compilationStrategy?: CompilationStrategy
+  /** Everything else goes to the template: its `props:` and on<Event> handlers for its `emits:` */
+  [prop: string]: unknown
 }
 
-function DeclComponent({ src, compilationStrategy }: DeclComponentProps) {
-  const [Component, setComponent] = useState<React.ComponentType | null>(null)
+function DeclComponent({ src, compilationStrategy, ...props }: DeclComponentProps) {
+  const [Component, setComponent] = useState<React.ComponentType<Record<string, unknown>> | null>(null)
   const [error, setError] = useState<string | null>(null)
 
   useEffect(() => {
-    // Construct path to template: {base}/templates/{src}.yml
     // Templates are in public/templates directory (available in both dev and build)
-    const base = import.meta.env.BASE_URL
-    const templatePath = `${base}templates/${src}.yml`
-    
-    // Load and parse YAML
-    fetch(templatePath)
-      .then((res) => {
-        if (!res.ok) {
-          throw new Error(`Failed to load template: ${res.statusText}`)
-        }
-        return res.text()
-      })
-      .then(async (text) => {
-        const parsed = yaml.load(text) as ComponentDefinition
-        const effectiveStrategy = compilationStrategy || COMPILATION_STRATEGIES.BLOB
-        
+    loadTemplate(src)
+      .then(async (parsed) => {
         // Use unified compileTemplate API for all compilation strategies
-        const CompiledComponent = await compileTemplate(parsed, effectiveStrategy)
+        const CompiledComponent = await compileTemplate(parsed, compilationStrategy)
         setComponent(() => CompiledComponent)
       })
       .catch((err) => {
@@ -47,7 +35,7 @@ function DeclComponent({ src, compilationStrategy }: DeclComponentProps) {
     return <div>Loading...</div>
   }
 
-  return <Component />
+  return <Component {...props} />
 }
 
 export default DeclComponent
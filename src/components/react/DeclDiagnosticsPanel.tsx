@@ -0,0 +1,39 @@
+import type { DeclDiagnostic } from '../../services/decl'
+
+interface DeclDiagnosticsPanelProps {
+  diagnostics: DeclDiagnostic[]
+}
+
+function DeclDiagnosticsPanel({ diagnostics }: DeclDiagnosticsPanelProps) {
+  const errorCount = diagnostics.filter((d) => d.severity === 'error').length
+  const warningCount = diagnostics.length - errorCount
+
+  return (
+    <div className="border-t border-gray-200 bg-white flex-shrink-0">
+      <div className="py-2 px-4 border-b border-gray-200 flex items-center justify-between">
+        <h2 className="text-sm font-semibold text-gray-800">Validation</h2>
+        <span className="text-xs text-gray-500">
+          {diagnostics.length === 0
+            ? 'No problems'
+            : `${errorCount} error${errorCount === 1 ? '' : 's'}, ${warningCount} warning${warningCount === 1 ? '' : 's'}`}
+        </span>
+      </div>
+      {diagnostics.length > 0 && (
+        <ul className="max-h-40 overflow-auto text-xs font-mono divide-y divide-gray-100">
+          {diagnostics.map((d, index) => (
+            <li key={index} className="px-4 py-1.5 flex gap-2">
+              <span className={d.severity === 'error' ? 'text-red-600' : 'text-amber-600'}>
+                {d.severity === 'error' ? 'error' : 'warn'}
+              </span>
+              <span className="text-gray-400">{d.code}</span>
+              {d.nodeKey && <span className="text-blue-600">{d.nodeKey}{d.prop ? `.${d.prop}` : ''}</span>}
+              <span className="text-gray-700">{d.message}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
+
+export default DeclDiagnosticsPanel
@@ -27,6 +27,8 @@ function DeclForm({ children, className, ...props }: DeclFormProps) {
     <Form {...form}>
       <form
         className={cn('space-y-4', className)}
+        // Submission runs through Button actions; never reload the page
+        onSubmit={(event) => event.preventDefault()}
         {...props}
       >
         {wrappedChildren}
@@ -1,24 +1,46 @@
-import React, { useState, useEffect, type ReactNode } from 'react'
+import React, { useState, useEffect, useMemo, useReducer, useRef, type KeyboardEvent, type ReactNode } from 'react'
 import { loadAllComponents } from '../../components/decl'
-import { loadAllActions } from '../../services/actions'
+import { loadAllActions, type ActionHandler } from '../../services/actions'
+import { applyDataPaths, loadPersistedData, savePersistedData } from '../../services/persistence'
 import {
+  type DeclData,
   type DeclNode,
+  type DeclPersist,
   type DeclSpec,
-  type DeclData,
+  applyComputed,
+  createStoreHistory,
+  storeHistoryReducer,
+  withHistoryState,
   renderDeclNode,
   type RenderContext
 } from '../../services/decl'
 import Spinner from './Spinner'
+import { useRouter } from './useRouter'
 
 interface DeclGenRendererProps {
   /** The DECL spec to render (view + data). undefined = loading, null = error/empty */
   declSpec: DeclSpec | null | undefined
+  /** Store to start from instead of declSpec.data (e.g. the saved store of a restored session) */
+  initialData?: DeclData
+  /** Called with the data store (without computed values) whenever it changes */
+  onDataChange?: (data: DeclData) => void
+  /**
+   * Show the spec without running it: no actions, binds do not write, no undo/redo and persisted data is
+   * neither restored nor saved. For specs from untrusted sources such as shared links.
+   */
+  readOnly?: boolean
 }
 
-function DeclGenRenderer({ declSpec }: DeclGenRendererProps) {
+// Debounce for saving the paths listed in declSpec.persist
+const PERSIST_SAVE_DELAY_MS = 300
+
+function DeclGenRenderer({ declSpec, initialData, onDataChange, readOnly = false }: DeclGenRendererProps) {
   const [loadedComponents, setLoadedComponents] = useState<Map<string, any>>(new Map())
-  const [actionHandlers, setActionHandlers] = useState<Map<string, (...args: any[]) => any>>(new Map())
-  const [dataStore, setDataStore] = useState<DeclData>({})
+  const [actionHandlers, setActionHandlers] = useState<Map<string, ActionHandler<any, any>>>(new Map())
+  // Data store with undo/redo history (see services/decl/history.ts)
+  const [history, dispatchHistory] = useReducer(storeHistoryReducer, {}, createStoreHistory)
+  const dataStore = history.present
+  const router = useRouter()
 
   // Load all components when component mounts first time
   useEffect(() => {
@@ -33,14 +55,68 @@ function DeclGenRenderer({ declSpec }: DeclGenRendererProps) {
     setActionHandlers(actions)
   }, []) // Only run on mount
 
-  // Sync dataStore with declSpec.data when it changes
+  // Paths that survive reloads; ignored while the editor holds a malformed persist section
+  // A read-only spec must not touch the persisted data of the app's own specs
+  const persist: DeclPersist | undefined =
+    !readOnly && typeof declSpec?.persist?.key === 'string' && Array.isArray(declSpec.persist.paths) ? declSpec.persist : undefined
+  // persist whose saved values have been restored; saving waits for it so defaults never overwrite saved values
+  const [loadedPersist, setLoadedPersist] = useState<DeclPersist>()
+
+  // Sync dataStore with declSpec.data (or initialData) when it changes (a new spec starts a new history),
+  // then restore the persisted paths over it
   useEffect(() => {
-    if (declSpec?.data) {
-      setDataStore(declSpec.data)
-    } else {
-      setDataStore({})
+    const data = initialData ?? declSpec?.data ?? {}
+    dispatchHistory({ type: 'reset', data })
+    if (!persist) return
+    let cancelled = false
+    loadPersistedData(persist)
+      .then((values) => {
+        if (cancelled) return
+        dispatchHistory({ type: 'reset', data: applyDataPaths(data, values) })
+        setLoadedPersist(persist)
+      })
+      .catch((err) => {
+        console.warn(`Failed to restore persisted data "${persist.key}":`, err)
+        if (!cancelled) setLoadedPersist(persist)
+      })
+    return () => {
+      cancelled = true
     }
-  }, [declSpec?.data])
+  }, [declSpec?.data, initialData, persist])
+
+  // Save the persisted paths after store changes
+  useEffect(() => {
+    if (!persist || loadedPersist !== persist) return
+    const timer = setTimeout(() => {
+      savePersistedData(persist, dataStore).catch((err) => {
+        console.warn(`Failed to save persisted data "${persist.key}":`, err)
+      })
+    }, PERSIST_SAVE_DELAY_MS)
+    return () => clearTimeout(timer)
+  }, [dataStore, persist, loadedPersist])
+
+  useEffect(() => {
+    onDataChange?.(dataStore)
+  }, [dataStore, onDataChange])
+
+  // Store as seen by the view: dataStore plus computed values and $history, recomputed on every store change
+  const computedStore = useMemo(
+    () => withHistoryState(applyComputed(dataStore, declSpec?.computed), history),
+    [dataStore, declSpec?.computed, history]
+  )
+  // Latest rendered store, read by actions that run after later renders (e.g. the second step of a flow)
+  const storeRef = useRef(computedStore)
+  useEffect(() => {
+    storeRef.current = computedStore
+  }, [computedStore])
+
+  // Abort in-flight actions (e.g. HTTP requests) when the spec is replaced or the renderer unmounts
+  const [abortController, setAbortController] = useState(() => new AbortController())
+  useEffect(() => {
+    const controller = new AbortController()
+    setAbortController(controller)
+    return () => controller.abort()
+  }, [declSpec])
 
   // Show loader when declSpec is undefined (loading state)
   if (declSpec === undefined) {
@@ -70,7 +146,9 @@ function DeclGenRenderer({ declSpec }: DeclGenRendererProps) {
         // Collect keys that appear as children of any node
         const children = node.children ?? (node.props?.children && Array.isArray(node.props.children) ? node.props.children : [])
         const content = node.props?.content && Array.isArray(node.props.content) ? node.props.content : []
-        ;[...children, ...content].forEach((c) => {
+        // Repeat templates are rendered once per item by their Repeat, never as roots
+        const template = typeof node.props?.template === 'string' ? [node.props.template] : []
+        ;[...children, ...content, ...template].forEach((c) => {
           if (typeof c === 'string') childKeys.add(c)
         })
       })
@@ -85,10 +163,18 @@ function DeclGenRenderer({ declSpec }: DeclGenRendererProps) {
         declNodes: nodesMap,
         loadedComponents,
         loadedActions: actionHandlers,
-        dataStore,
-        setDataStore: (updater) => {
-          setDataStore(updater)
-        }
+        dataStore: computedStore,
+        setDataStore: (updater, options) => {
+          dispatchHistory({ type: 'write', updater, transaction: options?.transaction })
+        },
+        history: {
+          undo: () => dispatchHistory({ type: 'undo' }),
+          redo: () => dispatchHistory({ type: 'redo' })
+        },
+        getDataStore: () => storeRef.current,
+        signal: abortController.signal,
+        router,
+        readOnly
       }
       if (keysToRender.length === 1) {
         renderedComponent = renderDeclNode(keysToRender[0], renderContext)
@@ -111,7 +197,24 @@ function DeclGenRenderer({ declSpec }: DeclGenRendererProps) {
     }
   }
 
-  return React.createElement('div', { className: 'flex-1 overflow-auto p-8 bg-white' },
+  // Ctrl/Cmd+Z undoes and Ctrl/Cmd+Shift+Z or Ctrl+Y redoes store changes while focus is in the preview.
+  // Text inputs keep their native undo.
+  const handleKeyDown = (event: KeyboardEvent<HTMLDivElement>) => {
+    if (readOnly || !(event.ctrlKey || event.metaKey) || event.altKey) return
+    const target = event.target as HTMLElement
+    if (target.isContentEditable || target.tagName === 'INPUT' || target.tagName === 'TEXTAREA') return
+    const key = event.key.toLowerCase()
+    if (key === 'z' && !event.shiftKey) {
+      dispatchHistory({ type: 'undo' })
+    } else if ((key === 'z' && event.shiftKey) || (key === 'y' && event.ctrlKey)) {
+      dispatchHistory({ type: 'redo' })
+    } else {
+      return
+    }
+    event.preventDefault()
+  }
+
+  return React.createElement('div', { className: 'flex-1 overflow-auto p-8 bg-white outline-none', tabIndex: -1, onKeyDown: handleKeyDown },
     renderedComponent || React.createElement('div', { className: 'p-4 text-gray-600' }, 'No component to render. Enter a prompt and click Generate.')
   )
 }
@@ -0,0 +1,119 @@
+import { useRef, useState, type ChangeEvent } from 'react'
+import { DECL_FILE_EXTENSION, type DeclLibrarySummary } from '../../services/library'
+import { Button } from '../ui/button'
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '../ui/dialog'
+import { Input } from '../ui/input'
+
+interface DeclLibraryDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  entries: DeclLibrarySummary[]
+  /** False when there is no spec to save (nothing generated yet, or generation in progress) */
+  canSave: boolean
+  /** Suggested name for the current spec */
+  defaultName: string
+  onSave: (name: string) => void
+  onOpen: (id: string) => void
+  onExport: (id: string) => void
+  onDelete: (id: string) => void
+  onImport: (file: File) => void
+}
+
+function DeclLibraryDialog({
+  open,
+  onOpenChange,
+  entries,
+  canSave,
+  defaultName,
+  onSave,
+  onOpen,
+  onExport,
+  onDelete,
+  onImport
+}: DeclLibraryDialogProps) {
+  // null = use defaultName (until the user types a name)
+  const [name, setName] = useState<string | null>(null)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  const handleSave = () => {
+    onSave((name ?? defaultName).trim() || 'Untitled')
+    setName(null)
+  }
+
+  const handleFileChange = (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    if (file) onImport(file)
+    e.target.value = ''
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Library</DialogTitle>
+          <DialogDescription>
+            Saved generations. Open one in the editor, or export it as a {DECL_FILE_EXTENSION} file to share.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="flex items-center gap-2 py-4">
+          <Input
+            value={name ?? defaultName}
+            onChange={(e) => setName(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter' && canSave) handleSave()
+            }}
+            placeholder="Name"
+            disabled={!canSave}
+          />
+          <Button onClick={handleSave} disabled={!canSave}>
+            Save current
+          </Button>
+          <Button variant="outline" onClick={() => fileInputRef.current?.click()}>
+            Import
+          </Button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept={`${DECL_FILE_EXTENSION},.json,application/json`}
+            className="hidden"
+            onChange={handleFileChange}
+          />
+        </div>
+        <div className="max-h-[60vh] overflow-auto">
+          {entries.length === 0 ? (
+            <div className="p-2 text-sm text-gray-500">Nothing saved yet.</div>
+          ) : (
+            <div className="grid grid-cols-3 gap-3">
+              {entries.map((entry) => (
+                <div key={entry.id} className="rounded-md border border-gray-200 bg-gray-50 p-2 text-sm flex flex-col">
+                  <button type="button" className="block" onClick={() => onOpen(entry.id)} title="Open in editor">
+                    <img src={entry.thumbnail} alt="" className="w-full rounded border border-gray-200 bg-white" />
+                  </button>
+                  <div className="mt-2 font-medium text-gray-800 break-words">{entry.name}</div>
+                  {entry.prompt && <div className="mt-1 text-xs text-gray-600 line-clamp-2">{entry.prompt}</div>}
+                  <div className="mt-1 text-xs text-gray-400">
+                    {new Date(entry.createdAt).toLocaleString()}
+                    {entry.model && ` · ${entry.model}`}
+                  </div>
+                  <div className="mt-2 flex gap-1">
+                    <Button variant="outline" size="sm" className="h-6 px-2 text-xs" onClick={() => onOpen(entry.id)}>
+                      Open
+                    </Button>
+                    <Button variant="ghost" size="sm" className="h-6 px-2 text-xs" onClick={() => onExport(entry.id)}>
+                      Export
+                    </Button>
+                    <Button variant="ghost" size="sm" className="h-6 px-2 text-xs" onClick={() => onDelete(entry.id)}>
+                      Delete
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+export default DeclLibraryDialog
@@ -0,0 +1,67 @@
+import type { DeclSessionSummary } from '../../services/persistence'
+import { Button } from '../ui/button'
+
+interface DeclSessionListProps {
+  sessions: DeclSessionSummary[]
+  /** Id of the session being edited (may not be saved yet) */
+  currentId: string | null
+  onSelect: (id: string) => void
+  onNew: () => void
+  onDelete: (id: string) => void
+  disabled?: boolean
+}
+
+function DeclSessionList({ sessions, currentId, onSelect, onNew, onDelete, disabled }: DeclSessionListProps) {
+  return (
+    <div className="w-56 flex-shrink-0 border-r border-gray-200 bg-white flex flex-col">
+      <div className="py-2 px-4 border-b border-gray-200 flex-shrink-0 flex items-center justify-between">
+        <h2 className="text-sm font-semibold text-gray-800">Sessions</h2>
+        <Button variant="ghost" size="sm" className="h-6 px-2 text-xs" disabled={disabled} onClick={onNew}>
+          New
+        </Button>
+      </div>
+      <div className="flex-1 overflow-auto p-2 space-y-2">
+        {sessions.length === 0 ? (
+          <div className="p-2 text-xs text-gray-500">
+            Sessions are saved in this browser as you work and restored on reload.
+          </div>
+        ) : (
+          sessions.map((session) => {
+            const isCurrent = session.id === currentId
+            return (
+              <div
+                key={session.id}
+                className={`rounded-md border p-2 text-sm ${isCurrent ? 'border-blue-300 bg-blue-50' : 'border-gray-200 bg-gray-50'}`}
+              >
+                <button
+                  type="button"
+                  className="w-full text-left text-gray-800 break-words disabled:cursor-not-allowed"
+                  disabled={disabled || isCurrent}
+                  onClick={() => onSelect(session.id)}
+                >
+                  {session.title || 'Untitled'}
+                </button>
+                <div className="mt-1 flex items-center justify-between text-xs text-gray-400">
+                  <span>
+                    {new Date(session.updatedAt).toLocaleString()} · {session.turnCount} turns
+                  </span>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-6 px-2 text-xs"
+                    disabled={disabled}
+                    onClick={() => onDelete(session.id)}
+                  >
+                    Delete
+                  </Button>
+                </div>
+              </div>
+            )
+          })
+        )}
+      </div>
+    </div>
+  )
+}
+
+export default DeclSessionList
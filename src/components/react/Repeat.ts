@@ -0,0 +1,17 @@
+import React, { type ReactNode } from 'react'
+
+interface RepeatProps {
+  children?: ReactNode
+  className?: string
+}
+
+// Plain .ts (no JSX) so the DECL registry's dynamic import stays typed under tsconfig.node.json,
+// which type-checks the examples without --jsx
+function Repeat({ children, className }: RepeatProps) {
+  return className
+    ? React.createElement('div', { className }, children)
+    : React.createElement(React.Fragment, null, children)
+}
+
+export default Repeat
+export { Repeat }
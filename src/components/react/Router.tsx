@@ -1,20 +1,9 @@
-import { useState, useEffect, createContext, useContext, type ReactNode } from 'react'
+import { useState, useEffect, Children, isValidElement, type ReactNode } from 'react'
+import { matchRoute, parseRoute } from './routes'
+import { RouteParamsContext, RouterContext, useRouter, type NavigateOptions, type Route } from './useRouter'
 
-type Route = string
-
-interface RouterContextType {
-  currentRoute: Route
-  navigate: (route: Route) => void
-}
-
-const RouterContext = createContext<RouterContextType | undefined>(undefined)
-
-export function useRouter() {
-  const context = useContext(RouterContext)
-  if (!context) {
-    throw new Error('useRouter must be used within Router')
-  }
-  return context
+function readHashRoute(): Route {
+  return window.location.hash.slice(1) || '/'
 }
 
 interface RouterProps {
@@ -24,7 +13,7 @@ interface RouterProps {
 export function Router({ children }: RouterProps) {
   const [currentRoute, setCurrentRoute] = useState<Route>(() => {
     // Get initial route from hash, default to '/'
-    const hash = window.location.hash.slice(1) || '/'
+    const hash = readHashRoute()
     // If no hash is set, set it to '/'
     if (!window.location.hash) {
       window.location.hash = '/'
@@ -34,8 +23,7 @@ export function Router({ children }: RouterProps) {
 
   useEffect(() => {
     const handleHashChange = () => {
-      const hash = window.location.hash.slice(1) || '/'
-      setCurrentRoute(hash)
+      setCurrentRoute(readHashRoute())
     }
 
     // Set initial hash if not present
@@ -47,24 +35,55 @@ export function Router({ children }: RouterProps) {
     return () => window.removeEventListener('hashchange', handleHashChange)
   }, [])
 
-  const navigate = (route: Route) => {
-    window.location.hash = route
+  const { path, query, anchor } = parseRoute(currentRoute)
+
+  // Scroll to the anchor once the route has rendered
+  useEffect(() => {
+    if (anchor) document.getElementById(anchor)?.scrollIntoView({ behavior: 'smooth' })
+  }, [currentRoute, anchor])
+
+  const navigate = (route: Route, options?: NavigateOptions) => {
+    if (options?.replace) {
+      window.history.replaceState(null, '', `#${route}`)
+    } else {
+      window.location.hash = route
+    }
     setCurrentRoute(route)
   }
 
   return (
-    <RouterContext.Provider value={{ currentRoute, navigate }}>
+    <RouterContext.Provider value={{ currentRoute, path, query, navigate }}>
       {children}
     </RouterContext.Provider>
   )
 }
 
 interface RouteProps {
+  /** Route path, with ":name" segments for params (e.g. "/items/:id") */
   path: string
   component: ReactNode
 }
 
 export function Route({ path, component }: RouteProps) {
-  const { currentRoute } = useRouter()
-  return currentRoute === path ? <>{component}</> : null
+  const { path: currentPath } = useRouter()
+  const params = matchRoute(path, currentPath)
+  return params ? <RouteParamsContext.Provider value={params}>{component}</RouteParamsContext.Provider> : null
+}
+
+interface RoutesProps {
+  /** Route elements; the first whose path matches is rendered */
+  children: ReactNode
+  /** Rendered when no Route matches */
+  notFound?: ReactNode
+}
+
+/**
+ * Render the first matching Route, or notFound when none match.
+ */
+export function Routes({ children, notFound = null }: RoutesProps) {
+  const { path: currentPath } = useRouter()
+  const match = Children.toArray(children).find(
+    (child) => isValidElement<RouteProps>(child) && typeof child.props.path === 'string' && matchRoute(child.props.path, currentPath) !== null
+  )
+  return <>{match ?? notFound}</>
 }
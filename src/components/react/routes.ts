@@ -0,0 +1,57 @@
+// Hash route parsing and matching, shared by Router and Route
+
+/**
+ * A hash route split into its parts, e.g. "/items/5?tab=info#notes" →
+ * { path: '/items/5', query: { tab: 'info' }, anchor: 'notes' }
+ */
+export interface ParsedRoute {
+  path: string
+  query: Record<string, string>
+  /** Element id to scroll to after navigating */
+  anchor: string
+}
+
+export function parseRoute(route: string): ParsedRoute {
+  const anchorIndex = route.indexOf('#')
+  const anchor = anchorIndex === -1 ? '' : route.slice(anchorIndex + 1)
+  const withoutAnchor = anchorIndex === -1 ? route : route.slice(0, anchorIndex)
+  const queryIndex = withoutAnchor.indexOf('?')
+  const path = (queryIndex === -1 ? withoutAnchor : withoutAnchor.slice(0, queryIndex)) || '/'
+  const query = queryIndex === -1 ? {} : Object.fromEntries(new URLSearchParams(withoutAnchor.slice(queryIndex + 1)))
+  return { path, query, anchor }
+}
+
+/**
+ * Match a route path against a pattern with ":name" segments.
+ *
+ * @returns The matched params, or null if the path does not match
+ *
+ * @example
+ * ```ts
+ * matchRoute('/items/:id', '/items/5') // { id: '5' }
+ * matchRoute('/items/:id', '/items') // null
+ * ```
+ */
+export function matchRoute(pattern: string, path: string): Record<string, string> | null {
+  const trim = (value: string) => value.replace(/^\/+|\/+$/g, '')
+  const patternParts = trim(pattern).split('/')
+  const pathParts = trim(path).split('/')
+  if (patternParts.length !== pathParts.length) return null
+
+  const params: Record<string, string> = {}
+  for (let i = 0; i < patternParts.length; i++) {
+    const part = patternParts[i]
+    if (part.startsWith(':')) {
+      if (!pathParts[i]) return null
+      try {
+        params[part.slice(1)] = decodeURIComponent(pathParts[i])
+      } catch {
+        // Malformed escape (e.g. "%E0"): no match, so Routes falls through to notFound
+        return null
+      }
+    } else if (part !== pathParts[i]) {
+      return null
+    }
+  }
+  return params
+}
@@ -0,0 +1,38 @@
+// Router context and hooks, kept out of Router.tsx so that file only exports components (fast refresh)
+import { createContext, useContext } from 'react'
+
+export type Route = string
+
+export interface NavigateOptions {
+  /** Replace the current history entry instead of pushing one */
+  replace?: boolean
+}
+
+export interface RouterContextType {
+  /** Full route including query and anchor */
+  currentRoute: Route
+  /** Route path only (no query or anchor), used to match Route paths */
+  path: string
+  query: Record<string, string>
+  navigate: (route: Route, options?: NavigateOptions) => void
+}
+
+export const RouterContext = createContext<RouterContextType | undefined>(undefined)
+
+// Params of the Route currently rendering (e.g. { id: '5' } for "/items/:id")
+export const RouteParamsContext = createContext<Record<string, string>>({})
+
+export function useRouter() {
+  const context = useContext(RouterContext)
+  if (!context) {
+    throw new Error('useRouter must be used within Router')
+  }
+  return context
+}
+
+/**
+ * Params matched by the enclosing Route (e.g. { id: '5' } for path "/items/:id" at "/items/5").
+ */
+export function useRouteParams(): Record<string, string> {
+  return useContext(RouteParamsContext)
+}
@@ -1,7 +1,6 @@
 import { useState, useEffect } from 'react'
 import Editor from '@monaco-editor/react'
 import DeclComponent from '../components/react/DeclComponent'
-import { COMPILATION_STRATEGIES } from '../services/compiler'
 import { getPageMetadata } from './pages'
 
 export const pageMetadata = getPageMetadata('/decl')!
@@ -47,7 +46,7 @@ export default function DeclExample() {
           <h2 className="text-sm font-semibold text-gray-800">Preview</h2>
         </div>
         <div className="flex-1 overflow-auto p-8 bg-white">
-          <DeclComponent src={templateName} compilationStrategy={COMPILATION_STRATEGIES.BLOB} />
+          <DeclComponent src={templateName} />
         </div>
       </div>
     </div>
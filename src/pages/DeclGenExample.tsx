@@ -1,18 +1,88 @@
 import { useState, useEffect, useRef, useCallback } from 'react'
 import Editor from '@monaco-editor/react'
 import DeclGenRenderer from '../components/react/DeclGenRenderer'
+import DeclDiagnosticsPanel from '../components/react/DeclDiagnosticsPanel'
+import DeclChatHistory, { type DeclChatTurn } from '../components/react/DeclChatHistory'
+import DeclSessionList from '../components/react/DeclSessionList'
+import DeclLibraryDialog from '../components/react/DeclLibraryDialog'
+import { useRouter } from '../components/react/useRouter'
 import { Button } from '../components/ui/button'
 import { getAllComponentDefinitions } from '../components/decl'
 import { getAllActionDefinitions } from '../services/actions'
-import { generate, type DeclSpec, tryParseJsonFromText } from '../services/decl'
+import {
+  generate,
+  refine,
+  validateDeclSpec,
+  type DeclData,
+  type DeclSpec,
+  type DeclGenerateContext,
+  tryParseJsonFromText
+} from '../services/decl'
+import {
+  type DeclSession,
+  type DeclSessionSummary,
+  createStorageId,
+  deleteSession,
+  listSessions,
+  loadSession,
+  saveSession
+} from '../services/persistence'
+import {
+  type DeclLibrarySummary,
+  addToLibrary,
+  deleteLibraryEntry,
+  downloadDeclSpecFile,
+  listLibrary,
+  loadLibraryEntry,
+  parseDeclSpecFile
+} from '../services/library'
+import { getDefaultProvider } from '../services/llm'
+import { createShareLink } from '../services/share'
+import { toast } from 'sonner'
 import { getPageMetadata } from './pages'
 
 export const pageMetadata = getPageMetadata('/decl-gen')!
 
 const DEFAULT_PROMPT = "A form to create a LinkdIn Profile, with all the required and optional fields"
 
+// Follow-up turns the model gets to fix validation errors in its output
+const MAX_REPAIR_ATTEMPTS = 2
+
+// Debounce for saving the current session after edits
+const SESSION_SAVE_DELAY_MS = 500
+
+// Most recently updated session, if any
+async function loadLastSession(): Promise<DeclSession | undefined> {
+  const saved = await listSessions()
+  return saved.length > 0 ? loadSession(saved[0].id) : undefined
+}
+
+// New session showing a library entry's spec
+async function sessionFromLibrary(id: string): Promise<DeclSession> {
+  const entry = await loadLibraryEntry(id)
+  if (!entry) throw new Error('This saved spec no longer exists')
+  const now = Date.now()
+  return {
+    id: createStorageId(),
+    title: entry.name,
+    createdAt: now,
+    updatedAt: now,
+    prompt: entry.prompt || DEFAULT_PROMPT,
+    turns: [],
+    spec: entry.spec,
+    dataStore: null
+  }
+}
+
+// A pending model call: a fresh generation, or a refinement of the base spec
+interface DeclGenRequest {
+  prompt: string
+  mode: 'generate' | 'refine'
+  base: DeclSpec | null
+}
+
 export default function DeclGenExample() {
-  const [prompt, setPrompt] = useState<string | null>(null)
+  const [request, setRequest] = useState<DeclGenRequest | null>(null)
   const [generationKey, setGenerationKey] = useState<number>(0)
   const [inputValue, setInputValue] = useState(DEFAULT_PROMPT)
   // Editor JSON text - updated from streaming and can be edited by user
@@ -20,8 +90,25 @@ export default function DeclGenExample() {
   // isGenerating: true while AI is streaming, false otherwise
   const [isGenerating, setIsGenerating] = useState<boolean>(false)
   const [error, setError] = useState<string | null>(null)
+  // repairAttempt: > 0 while the model is fixing validation errors of the generated spec
+  const [repairAttempt, setRepairAttempt] = useState<number>(0)
   // declSpec for the renderer: undefined = loading, null = error, DeclSpec = valid
   const [declSpec, setDeclSpec] = useState<DeclSpec | null | undefined>({ view: [], data: {} })
+  // Completed turns (generate/refine), oldest first; the last one is the current spec
+  const [history, setHistory] = useState<DeclChatTurn[]>([])
+  // Current session: id (null until the last session has been restored), creation time and saved sessions
+  const [sessionId, setSessionId] = useState<string | null>(null)
+  const [sessionCreatedAt, setSessionCreatedAt] = useState<number>(Date.now)
+  const [sessions, setSessions] = useState<DeclSessionSummary[]>([])
+  // Store of a restored session, used by the renderer instead of the spec's data until the spec changes
+  const [restoredData, setRestoredData] = useState<DeclData | undefined>(undefined)
+  // Live data store of the preview (saved with the session)
+  const [liveData, setLiveData] = useState<DeclData | null>(null)
+  // Saved generations (library dialog); ?spec=<id> opens one in the editor
+  const [library, setLibrary] = useState<DeclLibrarySummary[]>([])
+  const [isLibraryOpen, setIsLibraryOpen] = useState<boolean>(false)
+  const router = useRouter()
+  const specId = router.query.spec
   const effectRunRef = useRef<number>(0)
   const activeRunRef = useRef<number | null>(null)
 
@@ -35,11 +122,13 @@ export default function DeclGenExample() {
       setDeclSpec(null)
       return
     }
-    const parsed = tryParseJsonFromText(jsonText).value as { view?: unknown; data?: unknown } | null
+    const parsed = tryParseJsonFromText(jsonText).value as { view?: unknown; data?: unknown; computed?: unknown; persist?: unknown } | null
     if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) {
       const view = Array.isArray(parsed.view) ? parsed.view : []
       const data = (parsed.data && typeof parsed.data === 'object' && !Array.isArray(parsed.data)) ? parsed.data : {}
-      setDeclSpec({ view, data } as DeclSpec)
+      const computed = (parsed.computed && typeof parsed.computed === 'object' && !Array.isArray(parsed.computed)) ? parsed.computed : undefined
+      const persist = (parsed.persist && typeof parsed.persist === 'object' && !Array.isArray(parsed.persist)) ? parsed.persist : undefined
+      setDeclSpec({ view, data, ...(computed && { computed }), ...(persist && { persist }) } as DeclSpec)
       return
     }
     // Not valid JSON or wrong shape - empty spec if no input, else null
@@ -47,15 +136,17 @@ export default function DeclGenExample() {
   }, [jsonText, isGenerating, error])
 
   useEffect(() => {
-    if (!prompt) return
+    if (!request) return
+    const { prompt, mode, base } = request
 
     // Track this effect run
     const currentRun = ++effectRunRef.current
 
-    // Reset state for this new generation immediately
+    // Reset state for this new generation immediately (refinement keeps showing the base spec)
     setError(null)
-    setJsonText('')
+    if (mode === 'generate') setJsonText('')
     setIsGenerating(true)
+    setRepairAttempt(0)
 
     // Use a microtask to ensure only the last Strict Mode invocation proceeds
     Promise.resolve().then(() => {
@@ -65,26 +156,37 @@ export default function DeclGenExample() {
       // Mark this as the active run
       activeRunRef.current = currentRun
 
-      // Generate DECL spec with streaming (caller provides component/action definitions)
-      generate(prompt, {
+      // Generate or refine DECL spec with streaming (caller provides component/action definitions)
+      const context: DeclGenerateContext = {
         componentDefinitions: getAllComponentDefinitions(true),
         actionDefinitions: getAllActionDefinitions(true),
+        maxRepairAttempts: MAX_REPAIR_ATTEMPTS,
         onUpdate: (spec) => {
           if (activeRunRef.current !== currentRun) return
           setJsonText(JSON.stringify(spec, null, 2))
+        },
+        onRepair: (attempt) => {
+          if (activeRunRef.current !== currentRun) return
+          setRepairAttempt(attempt)
         }
-      })
+      }
+      const run = mode === 'refine' && base ? refine(base, prompt, context) : generate(prompt, context)
+
+      run
         .then((spec) => {
           if (activeRunRef.current !== currentRun) return
-          // Final spec - update editor with formatted JSON
+          // Final spec - update editor with formatted JSON and record the turn
           setJsonText(JSON.stringify(spec, null, 2))
+          setHistory((prev) => [...prev, { prompt, mode, spec, model: getDefaultProvider().getModel?.() }])
           setIsGenerating(false)
+          setRepairAttempt(0)
         })
         .catch((err) => {
           if (activeRunRef.current !== currentRun) return
           console.error('Error generating DECL spec:', err)
           setError(err.message || 'Failed to generate DECL spec')
           setIsGenerating(false)
+          setRepairAttempt(0)
         })
     })
 
@@ -94,24 +196,215 @@ export default function DeclGenExample() {
         activeRunRef.current = null
       }
     }
-  }, [prompt, generationKey])
+  }, [request, generationKey])
+
+  // Switch to a saved session, or start a new one when session is undefined
+  const applySession = useCallback((session: DeclSession | undefined) => {
+    setSessionId(session?.id ?? createStorageId())
+    setSessionCreatedAt(session?.createdAt ?? Date.now())
+    setInputValue(session?.prompt ?? DEFAULT_PROMPT)
+    setHistory(session?.turns ?? [])
+    setError(null)
+    setJsonText(session?.spec ? JSON.stringify(session.spec, null, 2) : '')
+    setRestoredData(session?.dataStore ?? undefined)
+    setLiveData(null)
+  }, [])
+
+  // On load (and when ?spec changes): open the requested library entry, or restore the most recent session
+  useEffect(() => {
+    let cancelled = false
+    const load = specId
+      ? sessionFromLibrary(specId).catch((err) => {
+          toast.error('Could not open saved spec', { description: err.message })
+          return loadLastSession()
+        })
+      : loadLastSession()
+    load
+      .then((session) => {
+        if (!cancelled) applySession(session)
+      })
+      .catch((err) => {
+        console.warn('Failed to restore the last session:', err)
+        if (!cancelled) applySession(undefined)
+      })
+    listSessions().then((saved) => !cancelled && setSessions(saved)).catch(() => {})
+    listLibrary().then((saved) => !cancelled && setLibrary(saved)).catch(() => {})
+    return () => {
+      cancelled = true
+    }
+  }, [applySession, specId])
+
+  // Save the current session after changes, once it has something worth keeping
+  useEffect(() => {
+    if (!sessionId || isGenerating) return
+    const spec = declSpec && declSpec.view.length > 0 ? declSpec : null
+    if (history.length === 0 && !spec) return
+    const timer = setTimeout(() => {
+      const session: DeclSession = {
+        id: sessionId,
+        title: history[0]?.prompt ?? inputValue,
+        createdAt: sessionCreatedAt,
+        updatedAt: Date.now(),
+        prompt: inputValue,
+        turns: history,
+        spec,
+        dataStore: liveData
+      }
+      saveSession(session)
+        .then(setSessions)
+        .catch((err) => console.warn('Failed to save session:', err))
+    }, SESSION_SAVE_DELAY_MS)
+    return () => clearTimeout(timer)
+  }, [sessionId, sessionCreatedAt, isGenerating, declSpec, history, inputValue, liveData])
+
+  const handleSelectSession = (id: string) => {
+    loadSession(id)
+      .then((session) => {
+        if (session) applySession(session)
+      })
+      .catch((err) => console.warn('Failed to load session:', err))
+  }
+
+  const handleDeleteSession = (id: string) => {
+    deleteSession(id)
+      .then(setSessions)
+      .catch((err) => console.warn('Failed to delete session:', err))
+    if (id === sessionId) applySession(undefined)
+  }
+
+  const handleSaveToLibrary = (name: string) => {
+    if (!declSpec || declSpec.view.length === 0) return
+    const lastTurn = history[history.length - 1]
+    addToLibrary({
+      name,
+      prompt: lastTurn?.prompt ?? inputValue,
+      model: lastTurn?.model ?? getDefaultProvider().getModel?.(),
+      createdAt: Date.now(),
+      spec: declSpec
+    })
+      .then(({ library }) => {
+        setLibrary(library)
+        toast.success(`Saved "${name}" to the library`)
+      })
+      .catch((err) => toast.error('Could not save to the library', { description: err.message }))
+  }
+
+  // Copy a link that renders the current spec read-only; specs too large for a link are downloaded instead
+  const handleShare = () => {
+    if (!declSpec || declSpec.view.length === 0) return
+    createShareLink(declSpec)
+      .then(async (link) => {
+        if (link.ok) {
+          await navigator.clipboard.writeText(link.url)
+          toast.success('Share link copied', { description: 'Anyone with the link sees this UI read-only.' })
+          return
+        }
+        const lastTurn = history[history.length - 1]
+        downloadDeclSpecFile({
+          name: lastTurn?.prompt ?? 'spec',
+          prompt: lastTurn?.prompt ?? inputValue,
+          model: lastTurn?.model,
+          createdAt: Date.now(),
+          spec: declSpec
+        })
+        toast.warning('Spec is too large for a link', {
+          description: `The link would be ${link.length} characters long, so the spec was downloaded as a file to send instead.`
+        })
+      })
+      .catch((err) => toast.error('Could not share', { description: err.message }))
+  }
+
+  const handleOpenLibraryEntry = (id: string) => {
+    setIsLibraryOpen(false)
+    if (id === specId) {
+      // Same route: navigating would not change the hash, so open it directly
+      sessionFromLibrary(id)
+        .then(applySession)
+        .catch((err) => toast.error('Could not open saved spec', { description: err.message }))
+    } else {
+      router.navigate(`/decl-gen?spec=${encodeURIComponent(id)}`)
+    }
+  }
+
+  const handleExportLibraryEntry = (id: string) => {
+    loadLibraryEntry(id)
+      .then((entry) => {
+        if (entry) downloadDeclSpecFile(entry)
+      })
+      .catch((err) => toast.error('Could not export', { description: err.message }))
+  }
+
+  const handleDeleteLibraryEntry = (id: string) => {
+    deleteLibraryEntry(id)
+      .then(setLibrary)
+      .catch((err) => toast.error('Could not delete', { description: err.message }))
+  }
+
+  // Import a .decl.json file into the library; the spec's shape is checked before it is saved
+  const handleImportLibraryFile = (file: File) => {
+    file.text()
+      .then((text) => addToLibrary(parseDeclSpecFile(text, file.name)))
+      .then(({ entry, library }) => {
+        setLibrary(library)
+        const errors = validateDeclSpec(entry.spec, {
+          componentDefinitions: getAllComponentDefinitions(true),
+          actionDefinitions: getAllActionDefinitions(true)
+        }).filter((diagnostic) => diagnostic.severity === 'error')
+        toast.success(`Imported "${entry.name}"`, errors.length > 0 ? { description: `${errors.length} validation errors; open it to see them` } : undefined)
+      })
+      .catch((err) => toast.error('Could not import file', { description: err.message }))
+  }
+
+  // Validate the rendered spec once streaming is done (partial specs have dangling child keys)
+  const diagnostics = !isGenerating && declSpec && declSpec.view.length > 0
+    ? validateDeclSpec(declSpec, {
+        componentDefinitions: getAllComponentDefinitions(true),
+        actionDefinitions: getAllActionDefinitions(true)
+      })
+    : null
+
+  // Current spec can be refined once something has been generated (or typed into the editor)
+  const canRefine = !isGenerating && !error && declSpec != null && declSpec.view.length > 0
 
   const handleGenerate = () => {
     // Reset all state immediately when generating
     setError(null)
     setJsonText('')
+    setRestoredData(undefined)
     setIsGenerating(true)
     // Cancel any previous runs by clearing the active run
     activeRunRef.current = null
-    // Set prompt and increment generation key to force effect re-run
-    setPrompt(inputValue)
+    // Set request and increment generation key to force effect re-run
+    setRequest({ prompt: inputValue, mode: 'generate', base: null })
+    setGenerationKey(prev => prev + 1)
+  }
+
+  const handleRefine = () => {
+    if (!canRefine) return
+    setError(null)
+    setRestoredData(undefined)
+    setIsGenerating(true)
+    activeRunRef.current = null
+    // Refine what is currently rendered, including manual edits in the editor
+    setRequest({ prompt: inputValue, mode: 'refine', base: declSpec })
     setGenerationKey(prev => prev + 1)
   }
 
+  // Undo to an earlier turn: restore its spec and drop the turns after it
+  const handleRestore = (index: number) => {
+    const turn = history[index]
+    if (!turn || isGenerating) return
+    setHistory(history.slice(0, index + 1))
+    setError(null)
+    setRestoredData(undefined)
+    setJsonText(JSON.stringify(turn.spec, null, 2))
+  }
+
   // Handle editor changes - allows manual editing when not generating
   const handleEditorChange = useCallback((value: string | undefined) => {
     if (!isGenerating && value !== undefined) {
       setJsonText(value)
+      setRestoredData(undefined)
       setError(null) // Clear error when user edits
     }
   }, [isGenerating])
@@ -130,20 +423,46 @@ export default function DeclGenExample() {
             onChange={(e) => setInputValue(e.target.value)}
             onKeyDown={(e) => {
               if (e.key === 'Enter') {
-                handleGenerate()
+                if (canRefine) {
+                  handleRefine()
+                } else {
+                  handleGenerate()
+                }
               }
             }}
             className="flex-1 px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
             placeholder="Enter your UI generation prompt..."
           />
+          <Button variant="outline" onClick={() => setIsLibraryOpen(true)}>
+            Library
+          </Button>
+          <Button variant="outline" onClick={handleShare} disabled={!canRefine}>
+            Share
+          </Button>
+          <Button variant="outline" onClick={handleRefine} disabled={!canRefine}>
+            Refine
+          </Button>
           <Button variant="default" onClick={handleGenerate} disabled={isGenerating}>
-            {isGenerating ? 'Generating...' : 'Generate'}
+            {repairAttempt > 0 ? `Repairing (${repairAttempt}/${MAX_REPAIR_ATTEMPTS})...` : isGenerating ? 'Generating...' : 'Generate'}
           </Button>
         </div>
       </div>
       <div className="flex-1 overflow-hidden flex">
+        {/* Sessions Panel - saved sessions of this browser */}
+        <DeclSessionList
+          sessions={sessions}
+          currentId={sessionId}
+          onSelect={handleSelectSession}
+          onNew={() => applySession(undefined)}
+          onDelete={handleDeleteSession}
+          disabled={isGenerating || !sessionId}
+        />
+
+        {/* History Panel - completed turns with undo */}
+        <DeclChatHistory turns={history} onRestore={handleRestore} disabled={isGenerating} />
+
         {/* Left Panel - Editable JSON */}
-        <div className="w-1/2 border-r border-gray-200 flex flex-col">
+        <div className="flex-1 min-w-0 border-r border-gray-200 flex flex-col">
           <div className="py-2 px-4 border-b border-gray-200 bg-white flex-shrink-0">
             <h2 className="text-sm font-semibold text-gray-800">DECL JSON</h2>
           </div>
@@ -165,7 +484,7 @@ export default function DeclGenExample() {
         </div>
 
         {/* Right Panel - Component Preview */}
-        <div className="w-1/2 flex flex-col">
+        <div className="flex-1 min-w-0 flex flex-col">
           <div className="py-2 px-4 border-b border-gray-200 bg-white flex-shrink-0">
             <h2 className="text-sm font-semibold text-gray-800">DECL Preview</h2>
           </div>
@@ -176,11 +495,24 @@ export default function DeclGenExample() {
                 <div className="text-red-600 text-sm">{error}</div>
               </div>
             ) : (
-              <DeclGenRenderer declSpec={declSpec} />
+              <DeclGenRenderer declSpec={declSpec} initialData={restoredData} onDataChange={setLiveData} />
             )}
           </div>
+          {diagnostics && <DeclDiagnosticsPanel diagnostics={diagnostics} />}
         </div>
       </div>
+      <DeclLibraryDialog
+        open={isLibraryOpen}
+        onOpenChange={setIsLibraryOpen}
+        entries={library}
+        canSave={canRefine}
+        defaultName={history[history.length - 1]?.prompt ?? inputValue}
+        onSave={handleSaveToLibrary}
+        onOpen={handleOpenLibraryEntry}
+        onExport={handleExportLibraryEntry}
+        onDelete={handleDeleteLibraryEntry}
+        onImport={handleImportLibraryFile}
+      />
     </div>
   )
 }
@@ -0,0 +1,78 @@
+import { useEffect, useState } from 'react'
+import { toast } from 'sonner'
+import DeclGenRenderer from '../components/react/DeclGenRenderer'
+import { useRouter } from '../components/react/useRouter'
+import { Button } from '../components/ui/button'
+import type { DeclSpec } from '../services/decl'
+import { addToLibrary, downloadDeclSpecFile } from '../services/library'
+import { decodeSharePayload } from '../services/share'
+
+const SHARED_SPEC_NAME = 'Shared spec'
+
+// Read-only view of a spec shared as a link (#/decl-share?d=<payload>, see services/share.ts)
+export default function DeclShareView() {
+  const router = useRouter()
+  const payload = router.query.d
+  // undefined = decoding, null = broken link
+  const [spec, setSpec] = useState<DeclSpec | null | undefined>(undefined)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+    const decoded = payload ? decodeSharePayload(payload) : Promise.reject(new Error('This link does not contain a spec'))
+    decoded
+      .then((shared) => {
+        if (cancelled) return
+        setSpec(shared)
+        setError(null)
+      })
+      .catch((err) => {
+        if (cancelled) return
+        setSpec(null)
+        setError(err.message)
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [payload])
+
+  // Copy the spec into the library and open it in the editor
+  const handleOpenInEditor = () => {
+    if (!spec) return
+    addToLibrary({ name: SHARED_SPEC_NAME, prompt: '', createdAt: Date.now(), spec })
+      .then(({ entry }) => router.navigate(`/decl-gen?spec=${encodeURIComponent(entry.id)}`))
+      .catch((err) => toast.error('Could not open in the editor', { description: err.message }))
+  }
+
+  const handleDownload = () => {
+    if (spec) downloadDeclSpecFile({ name: SHARED_SPEC_NAME, prompt: '', createdAt: Date.now(), spec })
+  }
+
+  return (
+    <div className="h-full bg-gray-50 flex flex-col overflow-hidden">
+      <div className="p-3 border-b border-gray-200 bg-white flex-shrink-0 flex items-center gap-3">
+        <h2 className="flex-1 text-sm font-semibold text-gray-800">
+          Shared UI <span className="font-normal text-gray-500">(read-only)</span>
+        </h2>
+        <Button variant="outline" onClick={handleDownload} disabled={!spec}>
+          Download
+        </Button>
+        <Button variant="default" onClick={handleOpenInEditor} disabled={!spec}>
+          Open in editor
+        </Button>
+      </div>
+      <div className="flex-1 overflow-auto flex">
+        {error ? (
+          <div className="flex-1 p-4 bg-red-50 border border-red-200 rounded-md m-4 h-fit">
+            <div className="text-red-800 font-semibold mb-2">Cannot show this shared UI</div>
+            <div className="text-red-600 text-sm">{error}</div>
+          </div>
+        ) : spec === undefined ? (
+          <div className="flex-1 p-8 text-sm text-gray-500">Loading shared UI...</div>
+        ) : (
+          <DeclGenRenderer declSpec={spec} readOnly />
+        )}
+      </div>
+    </div>
+  )
+}
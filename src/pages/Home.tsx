@@ -1,4 +1,4 @@
-import { useRouter } from '../components/react/Router'
+import { useRouter } from '../components/react/useRouter'
 import { Card } from '../components/ui/card'
 import { getPageMetadata, getNonHomePages } from './pages'
 
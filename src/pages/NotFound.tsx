@@ -0,0 +1,18 @@
+import { useRouter } from '../components/react/useRouter'
+import { Button } from '../components/ui/button'
+
+export default function NotFound() {
+  const router = useRouter()
+
+  return (
+    <div className="min-h-full bg-gray-50 p-8 flex items-center justify-center">
+      <div className="text-center">
+        <h1 className="text-4xl font-bold text-gray-900 mb-2">Page not found</h1>
+        <p className="text-lg text-gray-600 mb-6">
+          No page matches <code className="text-sm bg-gray-100 rounded px-1 py-0.5">{router.path}</code>
+        </p>
+        <Button onClick={() => router.navigate('/')}>Back to Home</Button>
+      </div>
+    </div>
+  )
+}
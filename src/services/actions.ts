@@ -2,6 +2,9 @@
 // Actions handle communication with external systems (server requests, navigation, etc.)
 
 import { toast } from 'sonner'
+import type { PropertyRules } from './decl/rules'
+import type { DeclData } from './decl/types'
+import { httpRequest, type HttpMethod } from './http'
 
 // JSON Schema type for action parameters (flat Record of param name to schema)
 export type JSONSchema = Record<string, any>
@@ -17,6 +20,119 @@ export interface Property {
   disabled?: boolean
   description?: string
   options?: { value: string; label: string }[]
+  rules?: PropertyRules
+  error?: string
+}
+
+// Router as seen by actions (the hash Router's navigate, or a plain hash fallback outside it)
+export interface ActionRouter {
+  currentRoute: string
+  navigate: (route: string, options?: { replace?: boolean }) => void
+}
+
+// Store history as seen by actions (used by undo / redo)
+export interface ActionHistory {
+  undo: () => void
+  redo: () => void
+}
+
+// Logger handed to actions; messages are prefixed with the action name
+export type ActionLogger = Pick<Console, 'debug' | 'info' | 'warn' | 'error'>
+
+// Runtime context passed to every handler as its second argument: handler(params, context)
+export interface ActionContext {
+  router: ActionRouter
+  /** Latest store as last rendered (computed values included) */
+  getDataStore: () => DeclData
+  setDataStore: (updater: (prev: DeclData) => DeclData) => void
+  /** Write one value at a dot-separated store path (relative to the enclosing Repeat item, like dataBind) */
+  setStoreValue: (path: string, value: unknown) => void
+  /** Key of the DECL node whose prop triggered the action (undefined outside a view) */
+  nodeKey?: string
+  /** Whatever the component passed to the callback (DOM event, new value, ...) */
+  event?: unknown
+  /** Aborted when the view that started the action is replaced or unmounted */
+  signal: AbortSignal
+  logger: ActionLogger
+  history: ActionHistory
+  toast: typeof toast
+}
+
+/**
+ * Action handler: receives the resolved params (already checked against the definition's params schema)
+ * and the runtime context. The result is checked against the definition's returns schema.
+ */
+export type ActionHandler<P = Record<string, any>, R = unknown> = (params: P, context: ActionContext) => R | Promise<R>
+
+// Browser globals used by navigate, typed here because services also compile for Node (examples/)
+const browser = globalThis as typeof globalThis & {
+  location?: { hash: string; replace: (url: string) => void }
+  open?: (url: string, target?: string, features?: string) => unknown
+}
+
+const hashRouter: ActionRouter = {
+  get currentRoute() {
+    return browser.location?.hash.slice(1) || '/'
+  },
+  navigate: (route, options) => {
+    if (!browser.location) return
+    if (options?.replace) browser.location.replace(`#${route}`)
+    else browser.location.hash = route
+  }
+}
+
+/**
+ * Logger that prefixes messages with the action name, e.g. "[action:httpGet]".
+ */
+export function createActionLogger(name: string): ActionLogger {
+  const prefix = `[action:${name}]`
+  return {
+    debug: (...args: unknown[]) => console.debug(prefix, ...args),
+    info: (...args: unknown[]) => console.info(prefix, ...args),
+    warn: (...args: unknown[]) => console.warn(prefix, ...args),
+    error: (...args: unknown[]) => console.error(prefix, ...args)
+  }
+}
+
+/**
+ * Build the runtime context for action handlers.
+ * Without a router, navigation sets location.hash; without a store, reads are empty and writes (and undo/redo) are dropped.
+ */
+export function createActionContext(
+  context: Partial<Omit<ActionContext, 'toast'>> = {}
+): ActionContext {
+  return {
+    router: context.router ?? hashRouter,
+    getDataStore: context.getDataStore ?? (() => ({})),
+    setDataStore: context.setDataStore ?? (() => {}),
+    setStoreValue: context.setStoreValue ?? (() => {}),
+    nodeKey: context.nodeKey,
+    event: context.event,
+    signal: context.signal ?? new AbortController().signal,
+    logger: context.logger ?? console,
+    history: context.history ?? { undo: () => {}, redo: () => {} },
+    toast
+  }
+}
+
+// Schemes navigate may open as external links (anything else, e.g. javascript:, is refused)
+const EXTERNAL_URL_SCHEMES = ['http:', 'https:', 'mailto:', 'tel:']
+
+/**
+ * Append query params and an anchor to a URL or route, keeping any query it already has.
+ */
+function buildNavigationTarget(url: string, query?: Record<string, unknown>, hash?: string): string {
+  const anchorIndex = url.indexOf('#')
+  const base = anchorIndex === -1 ? url : url.slice(0, anchorIndex)
+  const queryIndex = base.indexOf('?')
+  const path = queryIndex === -1 ? base : base.slice(0, queryIndex)
+  const search = new URLSearchParams(queryIndex === -1 ? '' : base.slice(queryIndex + 1))
+  for (const [name, value] of Object.entries(query ?? {})) {
+    if (value != null) search.set(name, String(value))
+  }
+  const anchor = hash ?? (anchorIndex === -1 ? '' : url.slice(anchorIndex + 1))
+  const queryString = search.toString()
+  return `${path}${queryString ? `?${queryString}` : ''}${anchor ? `#${anchor.replace(/^#/, '')}` : ''}`
 }
 
 // Action definition with params (JSON schema) and handler function
@@ -25,7 +141,98 @@ export interface ActionDefinition {
   description: string
   params?: Record<string, JSONSchema>
   returns?: JSONSchema
-  handler?: (...args: any[]) => any | Promise<any>
+  /** Param holding a "{storePath}" subtree whose Property rules must pass before the handler runs (omitted param = whole store) */
+  validates?: string
+  /** Param holding a Form node key whose data and state are reset after the handler runs */
+  resetsForm?: string
+  handler?: ActionHandler<any, any>
+}
+
+interface HttpActionParams {
+  url: string
+  headers?: Record<string, unknown>
+  query?: Record<string, unknown>
+  body?: unknown
+  loadingPath?: string
+  errorPath?: string
+}
+
+/**
+ * Build an HTTP action (httpGet, httpPost, ...). The handler resolves to the parsed JSON response
+ * (non-object bodies are wrapped as { data }), which the DECL "returns" mapping writes into the store.
+ * loadingPath is true while the request runs; errorPath holds the error message (null on success).
+ * Failed requests throw, so action flows run their onError branch.
+ */
+function createHttpAction(name: string, method: HttpMethod): ActionDefinition {
+  const hasBody = method === 'POST' || method === 'PUT'
+  return {
+    name,
+    description: `Send an HTTP ${method} request and map fields of the JSON response into the store with "returns" (e.g. { "items": "todos" }; dotted fields like "user.name" are allowed). Only relative URLs and allow-listed base URLs can be called. In DECL: { "name": "${name}", "params": { "url": "/api/todos/{todo.id}"${hasBody ? ', "body": "{newTodo}"' : ''}, "loadingPath": "todos.loading", "errorPath": "todos.error" }, "returns": { ... } }.`,
+    params: {
+      url: {
+        type: 'string',
+        required: true,
+        description: 'Required. Request URL; "{storePath}" placeholders are filled from the store.'
+      },
+      headers: {
+        type: 'object',
+        description: 'Optional request headers (values may be "{storePath}").'
+      },
+      query: {
+        type: 'object',
+        description: 'Optional query params added to the URL.'
+      },
+      ...(hasBody && {
+        body: {
+          type: 'object',
+          description: 'Optional JSON body, usually "{storePath}" of the data to send.'
+        }
+      }),
+      loadingPath: {
+        type: 'string',
+        description: 'Optional store path set to true while the request runs and false after (plain path, not "{...}").'
+      },
+      errorPath: {
+        type: 'string',
+        description: 'Optional store path receiving the error message when the request fails, or null when it succeeds (plain path, not "{...}").'
+      }
+    },
+    returns: {
+      type: 'object',
+      description: 'Parsed JSON response body (non-object bodies as { data })'
+    },
+    handler: async (params: HttpActionParams, context: ActionContext): Promise<Record<string, unknown>> => {
+      const { loadingPath, errorPath } = params
+      if (loadingPath) context.setStoreValue(loadingPath, true)
+      if (errorPath) context.setStoreValue(errorPath, null)
+      try {
+        const response = await httpRequest({
+          method,
+          url: String(params.url ?? ''),
+          headers: params.headers,
+          query: params.query,
+          body: hasBody ? params.body : undefined,
+          signal: context.signal
+        })
+        if (!response.ok) {
+          const detail = typeof response.data === 'string' ? `: ${response.data.slice(0, 200)}` : ''
+          throw new Error(`${method} ${params.url} failed with status ${response.status}${detail}`)
+        }
+        const data = response.data
+        return data != null && typeof data === 'object' && !Array.isArray(data)
+          ? (data as Record<string, unknown>)
+          : { data }
+      } catch (err: unknown) {
+        const message = err instanceof Error ? err.message : String(err)
+        if (errorPath) context.setStoreValue(errorPath, message)
+        else context.toast.error('Request failed', { description: message })
+        // Rethrow so flows run their onError branch
+        throw err
+      } finally {
+        if (loadingPath) context.setStoreValue(loadingPath, false)
+      }
+    }
+  }
 }
 
 // Map action names to their action definitions
@@ -36,13 +243,13 @@ const actionMap: Record<string, ActionDefinition> = {
     params: {
       data: {
         type: 'object',
+        required: true,
         description: 'Required. Store path to form data. In DECL use string "{storePath}" so runtime resolves it (e.g. "data": "{profile}").'
       }
     },
-    handler: async (params: Record<string, Property> | { data?: Record<string, Property> }): Promise<void> => {
-      const payload = params && typeof params === 'object' && 'data' in params && params.data != null
-        ? params.data
-        : (params as Record<string, Property>)
+    validates: 'data',
+    handler: async (params: { data: Record<string, Property> }, context: ActionContext): Promise<void> => {
+      const payload = params.data
       const filteredPayload = Object.fromEntries(
         Object.entries(payload)
           .filter(([, v]) => {
@@ -52,31 +259,128 @@ const actionMap: Record<string, ActionDefinition> = {
           })
           .map(([k, v]) => [k, { value: v.value }])
       )
-      toast.success('Form submitted successfully!', {
+      context.toast.success('Form submitted successfully!', {
         description: JSON.stringify(filteredPayload, null, 2),
       })
     }
   },
+  resetForm: {
+    name: 'resetForm',
+    description: 'Reset a Form (one with a dataBind) to the values it had before it was edited, and clear its dirty/touched/submitted/error state. In DECL: { "name": "resetForm", "params": { "form": "<Form node key>" } }.',
+    params: {
+      form: {
+        type: 'string',
+        required: true,
+        description: 'Required. Key of the Form node to reset.'
+      }
+    },
+    resetsForm: 'form',
+    handler: (): void => {
+      // Store changes are applied by createActionBind (resetsForm)
+    }
+  },
   navigate: {
     name: 'navigate',
-    description: 'Navigate to a different URL or route. In DECL onClick include params: { "url": "<url or {storePath}>" }.',
+    description: 'Navigate to an in-app route (e.g. "/decl-gen", "/items/{item.id}") or open an external link (http(s), mailto, tel) after the user confirms. In DECL onClick include params: { "url": "<url or {storePath}>" }, optionally "query" and "hash".',
     params: {
       url: {
         type: 'string',
+        required: true,
         description: 'Required. The URL or route. In DECL use a string or "{storePath}" to read from store.'
+      },
+      query: {
+        type: 'object',
+        description: 'Optional query params added to the URL (e.g. { "tab": "details" }).'
+      },
+      hash: {
+        type: 'string',
+        description: 'Optional anchor (element id) to scroll to after navigating.'
+      },
+      replace: {
+        type: 'boolean',
+        description: 'Optional. Replace the current history entry instead of adding one (in-app routes only).'
       }
     },
-    handler: (params: { url: string }): void => {
-      console.log('Navigating to:', params.url)
+    handler: (
+      params: { url: string; query?: Record<string, unknown>; hash?: string; replace?: boolean },
+      context: ActionContext
+    ): void => {
+      const url = typeof params?.url === 'string' ? params.url.trim() : ''
+      if (!url) {
+        context.toast.error('Navigation failed', { description: 'No URL given' })
+        return
+      }
+      const target = buildNavigationTarget(url, params.query, params.hash)
 
-      // Show toast notification
-      toast.success('Navigating to:', {
-        description: params.url,
-      })
-      // TODO: Implement actual navigation logic
-      // For now, this could use window.location or a router
+      const scheme = /^([a-z][a-z\d+.-]*:)/i.exec(target)?.[1].toLowerCase()
+      if (scheme || target.startsWith('//')) {
+        if (scheme && !EXTERNAL_URL_SCHEMES.includes(scheme)) {
+          context.toast.error('Navigation blocked', { description: `Links with "${scheme}" are not allowed` })
+          return
+        }
+        // External links leave the app, so the user confirms first
+        context.toast('Open external link?', {
+          description: target,
+          action: {
+            label: 'Open',
+            onClick: () => browser.open?.(target, '_blank', 'noopener,noreferrer')
+          }
+        })
+        return
+      }
+
+      // In-app route: "#/items/5", "/items/5" and "items/5" all go to /items/5
+      const route = target.replace(/^#/, '')
+      context.router.navigate(route.startsWith('/') ? route : `/${route}`, { replace: params.replace === true })
+    }
+  },
+  undo: {
+    name: 'undo',
+    description: 'Undo the last change to the data store (an edited field, or all writes of one action). Disable the button with "disabled": "{!$history.canUndo}".',
+    params: {},
+    handler: (_params: Record<string, never>, context: ActionContext): void => {
+      context.history.undo()
+    }
+  },
+  redo: {
+    name: 'redo',
+    description: 'Redo the last undone change to the data store. Disable the button with "disabled": "{!$history.canRedo}".',
+    params: {},
+    handler: (_params: Record<string, never>, context: ActionContext): void => {
+      context.history.redo()
+    }
+  },
+  toast: {
+    name: 'toast',
+    description: 'Show a toast notification. Useful as a step in action flows, e.g. { "name": "toast", "params": { "message": "Saved", "type": "success" } } in onSuccess, or "message": "{error}" in onError.',
+    params: {
+      message: {
+        type: 'string',
+        required: true,
+        description: 'Required. Text of the toast; "{storePath}", "{result.field}" and "{error}" are filled in.'
+      },
+      description: {
+        type: 'string',
+        description: 'Optional second line of text.'
+      },
+      type: {
+        type: 'string',
+        enum: ['success', 'error', 'info', 'warning'],
+        description: 'Toast style (default info).'
+      }
+    },
+    handler: (
+      params: { message: string; description?: string; type?: 'success' | 'error' | 'info' | 'warning' },
+      context: ActionContext
+    ): void => {
+      const show = context.toast[params.type ?? 'info'] ?? context.toast.info
+      show(String(params.message ?? ''), params.description ? { description: params.description } : undefined)
     }
   },
+  httpGet: createHttpAction('httpGet', 'GET'),
+  httpPost: createHttpAction('httpPost', 'POST'),
+  httpPut: createHttpAction('httpPut', 'PUT'),
+  httpDelete: createHttpAction('httpDelete', 'DELETE'),
   getValue: {
     name: 'getValue',
     description: 'Get a value with position and weight',
@@ -106,7 +410,7 @@ const actionMap: Record<string, ActionDefinition> = {
       },
       required: ['position', 'weight']
     },
-    handler: async (_params: {}): Promise<{ position: { x: number; y: number }; weight: number }> => {
+    handler: async (): Promise<{ position: { x: number; y: number }; weight: number }> => {
       return {
         position: { x: 3, y: 5 },
         weight: 7
@@ -144,11 +448,11 @@ const actionMap: Record<string, ActionDefinition> = {
  * @param description - Optional description of the action
  * 
  * @example
- * registerAction('submitForm', async (params) => { ... }, { formId: { type: 'string' } })
+ * registerAction('submitForm', async (params, context) => { ... }, { formId: { type: 'string', required: true } })
  */
 export function registerAction(
   name: string,
-  handler: (...args: any[]) => any | Promise<any>,
+  handler: ActionHandler<any, any>,
   params?: Record<string, JSONSchema>,
   description?: string
 ): void {
@@ -176,7 +480,7 @@ export function hasAction(name: string): boolean {
  * @param name - Action name in camelCase (e.g., "submit")
  * @returns The action handler function, or null if not found
  */
-export function loadAction(name: string): ((...args: any[]) => any | Promise<any>) | null {
+export function loadAction(name: string): ActionHandler<any, any> | null {
   const actionDef = actionMap[name]
   if (actionDef) {
     if (!actionDef.handler) {
@@ -218,8 +522,8 @@ export function getActionDefinition(name: string): ActionDefinition | null {
  * Load all actions from the action registry.
  * Returns a Map of action name to handler (for use in RenderContext.loadedActions).
  */
-export function loadAllActions(): Map<string, (...args: any[]) => any> {
-  const handlers = new Map<string, (...args: any[]) => any>()
+export function loadAllActions(): Map<string, ActionHandler<any, any>> {
+  const handlers = new Map<string, ActionHandler<any, any>>()
   const actionDefs = getAllActionDefinitions()
 
   for (const def of actionDefs) {
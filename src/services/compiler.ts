@@ -2,7 +2,7 @@
  * Template Compiler Service
  * 
  * This module provides a unified API for compiling component definitions (YAML templates)
- * into React components. It supports three compilation strategies:
+ * into React components. It supports five compilation strategies:
  * 
  * 1. INLINE: Direct evaluation using JavaScript's Function constructor
  *    - Fast, but less secure (runs in main thread)
@@ -10,7 +10,7 @@
  * 
  * 2. SANDBOX: Isolated evaluation in an iframe sandbox
  *    - More secure, isolated execution context
- *    - Uses postMessage for communication
+ *    - Uses postMessage for communication, one round trip per render
  *    - Good for untrusted templates
  * 
  * 3. BLOB: Static compilation to JavaScript blob
@@ -19,12 +19,42 @@
  *    - No runtime expression evaluation
  *    - Best performance, but requires blob URL support
  * 
+ * 4. QUICKJS: Evaluation in a QuickJS interpreter compiled to WebAssembly
+ *    - No DOM or host APIs, memory/stack limits and a deterministic CPU budget
+ *    - Runs in Node as well as the browser (see quickjsEngine.ts)
+ *    - Good for untrusted templates and for tests
+ * 
+ * 5. WORKER: Evaluation in a dedicated Web Worker (see jsEngineWorker.ts)
+ *    - Off the main thread, no DOM access, no iframe or readiness polling
+ *    - All expressions of a render are evaluated in one round trip
+ *    - Runaway code is stopped by terminating and respawning the worker
+ *
+ * Props, Events and Template Tags:
+ * ================================
+ *
+ * - props: inputs with a type and default, readable by name in expressions (data wins on a clash)
+ * - emits: events an action may fire; actions get `(data, setData, { props, payload, emit })` and
+ *   emit('count-changed', 1) calls the parent's onCountChanged / on-count-changed prop
+ * - Any other dashed tag is looked up as a template (<sample-panel> -> templates/SamplePanel.yml) and
+ *   compiled on first use; it needs an explicit closing tag: <sample-panel title="{x}"></sample-panel>
+ *
+ * Loops and Conditionals:
+ * =======================
+ *
+ * - for-each="item in items" or for-each="(item, index) in items" repeats the element; key="{item.id}"
+ *   keys the copies (default: the index). An if on the same element filters the items.
+ * - if="cond" / else-if="cond" / else on consecutive siblings render the first branch that matches
+ * - All strategies render the same output: BLOB generates Array.from and ternaries, the others evaluate
+ *   loop-dependent expressions once per list (see toScopedExpression) and index the results per item.
+ *   A loop-dependent expression that throws gives undefined for that iteration only, in every strategy.
+ *
  * Function Call Tree:
  * ===================
  * 
  * compileTemplate (exported main API)
  *   ├─> compileTemplateToJsBlobComponent (if compilationStrategy === BLOB)
  *   │    ├─> compileTemplateToJS
+ *   │    │    ├─> getDirectives / groupConditionalChains (helpers)
  *   │    │    ├─> toPascalCase (helper)
  *   │    │    └─> toReactPropName (helper)
  *   │    ├─> Creates blob and imports it
@@ -35,29 +65,42 @@
  *   │                   └─> parseActions callback (pre-compiled JS code)
  *   │                   (no evaluateExpressions - expressions are pre-compiled)
  *   │
- *   └─> compileTemplateToInlineComponent (if compilationStrategy === INLINE | SANDBOX)
+ *   └─> compileTemplateToInlineComponent (if compilationStrategy === INLINE | SANDBOX | QUICKJS | WORKER)
  *        └─> createComponent (component helper)
- *             └─> (via callbacks passed to createComponent)
+ *             └─> (via callbacks from createEngineTemplateDeps)
  *                  ├─> renderTemplate callback (inline template parsing)
+ *                  │    ├─> getDirectives / groupConditionalChains (helpers)
+ *                  │    ├─> getScopedResult (helper, value of an expression for one loop iteration)
  *                  │    ├─> toReactPropName (helper)
  *                  │    └─> toPascalCase (helper)
  *                  ├─> parseActions callback
  *                  │    └─> getJSEngine -> engine.executeAction
  *                  │         ├─> InlineJsEngine (JS engine)
- *                  │         └─> IframeSandbox (JS engine)
+ *                  │         ├─> IframeSandbox (JS engine)
+ *                  │         ├─> QuickJsEngine (JS engine)
+ *                  │         └─> WorkerEngine (JS engine)
  *                  └─> evaluateExpressions callback
  *                       ├─> extractExpressions (helper)
- *                       └─> evaluateExpressionAsync (helper)
- *                            └─> getJSEngine -> engine.evaluateExpression
+ *                       │    └─> toScopedExpression (helper, expressions inside loops)
+ *                       ├─> getDataVersion (helper, results are cached per data version and props)
+ *                       ├─> engine.evaluateExpressions (one batch, if the engine supports it)
+ *                       │    ├─> IframeSandbox (JS engine)
+ *                       │    └─> WorkerEngine (JS engine)
+ *                       └─> evaluateExpressionAsync (helper, otherwise)
+ *                            └─> engine.evaluateExpression
  *                                 ├─> InlineJsEngine (JS engine)
- *                                 └─> IframeSandbox (JS engine)
+ *                                 └─> QuickJsEngine (JS engine)
  * 
  * @module compiler
  */
 
 import React, { type ReactNode, type ComponentType } from 'react'
+import yaml from 'js-yaml'
 import { loadComponent, hasComponent } from '../components/react'
 import { loadComponentFromBlob } from './blobJsLoader'
+import type { JSEngine, TemplateActionContext } from './jsEngine'
+import type { WorkerRequest, WorkerResponse } from './jsEngineWorker'
+import { QuickJsEngine } from './quickjsEngine'
 
 // ============================================================================
 // Types and Constants
@@ -66,7 +109,9 @@ import { loadComponentFromBlob } from './blobJsLoader'
 export const COMPILATION_STRATEGIES = {
   INLINE: 'inline',
   SANDBOX: 'sandbox',
-  BLOB: 'blob'
+  BLOB: 'blob',
+  QUICKJS: 'quickjs',
+  WORKER: 'worker'
 } as const
 
 export type CompilationStrategy = typeof COMPILATION_STRATEGIES[keyof typeof COMPILATION_STRATEGIES]
@@ -76,22 +121,36 @@ export interface ComponentDefinition {
   data: Record<string, { type: string; initial: any }>
   actions?: Record<string, string>
   imports?: Array<Record<string, string>>
+  /** Inputs, visible to expressions by name and to actions as context.props */
+  props?: Record<string, { type: string; default?: unknown }>
+  /** Events actions can fire with context.emit(name, payload); parents listen with on<Event> props */
+  emits?: string[]
   compilationStrategy?: CompilationStrategy
 }
 
-interface JSEngine {
-  evaluateExpression(expr: string, context: Record<string, any>): Promise<any>
-  executeAction(
-    code: string,
-    data: Record<string, any>,
-    setData: (update: any) => void
-  ): Promise<void>
-}
-
 // ============================================================================
 // Helpers
 // ============================================================================
 
+// Data versions (per props) kept in a compiled template's expression cache
+const MAX_CACHED_DATA_VERSIONS = 32
+
+const dataVersions = new WeakMap<object, number>()
+let nextDataVersion = 0
+
+/**
+ * Version of a data snapshot. Component data is replaced, never mutated, so each new object is a new
+ * version and expression results can be cached by version instead of comparing data.
+ */
+function getDataVersion(data: object): number {
+  let version = dataVersions.get(data)
+  if (version === undefined) {
+    version = ++nextDataVersion
+    dataVersions.set(data, version)
+  }
+  return version
+}
+
 function serializeForPostMessage(obj: Record<string, any>): Record<string, any> {
   const serializable: Record<string, any> = {}
   Object.keys(obj).forEach(key => {
@@ -103,6 +162,60 @@ function serializeForPostMessage(obj: Record<string, any>): Record<string, any>
   return serializable
 }
 
+/**
+ * Payload for an action's context. DOM events (an action used as onClick) cannot be posted to a
+ * sandbox or worker, so they are dropped for every strategy alike.
+ */
+function toActionPayload(payload: unknown): unknown {
+  if (typeof payload === 'function' || typeof payload === 'symbol') return undefined
+  if (payload && typeof payload === 'object' && 'nativeEvent' in payload) return undefined
+  return payload
+}
+
+/**
+ * Props declared in the template's `props:` section, with defaults applied. Literal attribute values
+ * from a parent template arrive as strings and are converted to the declared type.
+ */
+function resolveTemplateProps(
+  propsConfig: ComponentDefinition['props'],
+  props: Record<string, unknown>
+): Record<string, unknown> {
+  const resolved: Record<string, unknown> = {}
+  if (propsConfig) {
+    Object.keys(propsConfig).forEach((name) => {
+      const { type, default: defaultValue } = propsConfig[name]
+      let value = props[name]
+      if (value === undefined) {
+        value = defaultValue
+      } else if (typeof value === 'string' && type === 'number') {
+        value = Number(value)
+      } else if (typeof value === 'string' && type === 'boolean') {
+        value = value !== 'false'
+      }
+      resolved[name] = value
+    })
+  }
+  return resolved
+}
+
+/**
+ * Call the on<Event> prop for an event declared in `emits:`. Matching ignores case and dashes, so
+ * "count-changed" reaches onCountChanged (React) as well as on-count-changed (a parent template's
+ * attribute, which HTML lowercases).
+ */
+function emitTemplateEvent(config: ComponentDefinition, props: Record<string, unknown>, event: string, payload?: unknown) {
+  if (!config.emits?.includes(event)) {
+    console.warn(`Event "${event}" is not declared in the template's emits`)
+    return
+  }
+  const normalize = (name: string) => name.replace(/-/g, '').toLowerCase()
+  const handlerName = Object.keys(props).find((key) => normalize(key) === normalize(`on${event}`))
+  const handler = handlerName && props[handlerName]
+  if (typeof handler === 'function') {
+    handler(payload)
+  }
+}
+
 function waitForSandboxReady(
   getReady: () => boolean,
   onReady: () => void,
@@ -225,29 +338,74 @@ function resolvePath(path: string): string {
   return path
 }
 
-function extractExpressions(template: string): string[] {
-  const expressions: Set<string> = new Set()
+/**
+ * Expressions in a piece of text, e.g. ["count"] for "count is {count}"
+ */
+function findTextExpressions(text: string): string[] {
+  const expressions: string[] = []
 
   let textIndex = 0
-  while (textIndex < template.length) {
-    const exprStart = template.indexOf('{', textIndex)
+  while (textIndex < text.length) {
+    const exprStart = text.indexOf('{', textIndex)
     if (exprStart === -1) break
-    const exprEnd = template.indexOf('}', exprStart)
+    const exprEnd = text.indexOf('}', exprStart)
     if (exprEnd === -1) break
-    const expr = template.substring(exprStart + 1, exprEnd).trim()
+    const expr = text.substring(exprStart + 1, exprEnd).trim()
     if (expr) {
-      expressions.add(expr)
+      expressions.push(expr)
     }
     textIndex = exprEnd + 1
   }
 
-  const attrExprRegex = /="\{([^}]+)\}"/g
-  let match
-  while ((match = attrExprRegex.exec(template)) !== null) {
-    const expr = match[1].trim()
-    if (expr) {
-      expressions.add(expr)
+  return expressions
+}
+
+/**
+ * All expressions the engines have to evaluate for a view, in the form toScopedExpression gives them:
+ * text and attribute expressions, for-each lists and if/else-if conditions
+ */
+function extractExpressions(view: string): string[] {
+  const expressions: Set<string> = new Set()
+
+  function collect(nodes: Node[], scopes: LoopScope[]) {
+    nodes.forEach((node) => {
+      if (node.nodeType === Node.TEXT_NODE) {
+        findTextExpressions(node.textContent || '').forEach((expr) => {
+          expressions.add(toScopedExpression(expr, scopes))
+        })
+        return
+      }
+      if (node.nodeType !== Node.ELEMENT_NODE) return
+
+      const element = node as Element
+      const directives = getDirectives(element)
+      if (directives.elseIf !== undefined) {
+        expressions.add(toScopedExpression(directives.elseIf, scopes))
+      }
+      let elementScopes = scopes
+      if (directives.forEach) {
+        expressions.add(toScopedExpression(toLoopLengthExpression(directives.forEach), scopes))
+        elementScopes = [...scopes, directives.forEach]
+      }
+      if (directives.if !== undefined) {
+        expressions.add(toScopedExpression(directives.if, elementScopes))
+      }
+      Array.from(element.attributes).forEach((attr) => {
+        if (!DIRECTIVE_ATTRIBUTES.includes(attr.name) && attr.value.startsWith('{') && attr.value.endsWith('}')) {
+          expressions.add(toScopedExpression(attr.value.slice(1, -1), elementScopes))
+        }
+      })
+      collect(Array.from(element.childNodes), elementScopes)
+    })
+  }
+
+  try {
+    const doc = new DOMParser().parseFromString(view.trim(), 'text/html')
+    if (doc.body) {
+      collect(Array.from(doc.body.children), [])
     }
+  } catch (error) {
+    console.error('Error extracting expressions from view:', error)
   }
 
   return Array.from(expressions)
@@ -256,7 +414,7 @@ function extractExpressions(template: string): string[] {
 async function evaluateExpressionAsync(
   expr: string,
   context: Record<string, any>,
-  strategy: CompilationStrategy,
+  engine: JSEngine,
   actions?: Record<string, Function>
 ): Promise<any> {
   try {
@@ -266,7 +424,6 @@ async function evaluateExpressionAsync(
       return actions[expr]
     }
 
-    const engine = getJSEngine(strategy)
     return await engine.evaluateExpression(expr, context)
   } catch (error) {
     console.error(`Error evaluating expression "${expr}":`, error)
@@ -314,6 +471,7 @@ function parseAttributes(
 ): Record<string, any> {
   const attrs: Record<string, any> = {}
   Array.from(element.attributes).forEach((attr) => {
+    if (DIRECTIVE_ATTRIBUTES.includes(attr.name)) return
     const reactName = toReactPropName(attr.name)
     let value: any = attr.value
     if (value.startsWith('{') && value.endsWith('}')) {
@@ -327,12 +485,172 @@ function parseAttributes(
   return attrs
 }
 
+// ============================================================================
+// View Directives
+// ============================================================================
+
+/** A for-each loop: `item in items` or `(item, index) in items` */
+interface LoopScope {
+  item: string
+  index?: string
+  list: string
+}
+
+interface ElementDirectives {
+  forEach?: LoopScope
+  /** On a for-each element, filters the items; otherwise starts an if/else-if/else chain */
+  if?: string
+  elseIf?: string
+  else: boolean
+}
+
+/** A child of an element as rendered: a node, or an if/else-if/else chain of which at most one renders */
+type ViewChild =
+  | { node: Node }
+  | { branches: Array<{ element: Element; condition?: string }> }
+
+const DIRECTIVE_ATTRIBUTES = ['for-each', 'if', 'else-if', 'else']
+const FOR_EACH_PATTERN = /^\s*(?:\(\s*([a-zA-Z_$][\w$]*)\s*(?:,\s*([a-zA-Z_$][\w$]*)\s*)?\)|([a-zA-Z_$][\w$]*))\s+in\s+([\s\S]+)$/
+
+/**
+ * Directive attribute value as an expression. Braces are optional: if="count > 0" and
+ * if="{count > 0}" are the same.
+ */
+function toDirectiveExpression(value: string): string {
+  value = value.trim()
+  return value.startsWith('{') && value.endsWith('}') ? value.slice(1, -1).trim() : value
+}
+
+function getDirectives(element: Element): ElementDirectives {
+  const directives: ElementDirectives = { else: element.hasAttribute('else') }
+
+  const forEach = element.getAttribute('for-each')
+  if (forEach !== null) {
+    const match = FOR_EACH_PATTERN.exec(toDirectiveExpression(forEach))
+    if (match) {
+      directives.forEach = { item: match[1] ?? match[3], index: match[2], list: match[4].trim() }
+    } else {
+      console.warn(`Invalid for-each "${forEach}", expected "item in items" or "(item, index) in items"`)
+    }
+  }
+
+  const condition = element.getAttribute('if')
+  if (condition !== null) {
+    directives.if = toDirectiveExpression(condition)
+  }
+  const elseIf = element.getAttribute('else-if')
+  if (elseIf !== null) {
+    directives.elseIf = toDirectiveExpression(elseIf)
+  }
+  return directives
+}
+
+/**
+ * Group sibling nodes into if/else-if/else chains. Whitespace between the branches of a chain is
+ * dropped. else-if/else without a preceding if (or after an if on a for-each element, which is a filter)
+ * is ignored with a warning.
+ */
+function groupConditionalChains(nodes: Node[]): ViewChild[] {
+  const children: ViewChild[] = []
+  let chain: Array<{ element: Element; condition?: string }> | null = null
+  let whitespace: Node[] = []
+
+  nodes.forEach((node) => {
+    if (chain && node.nodeType === Node.TEXT_NODE && !node.textContent?.trim()) {
+      whitespace.push(node)
+      return
+    }
+
+    if (node.nodeType === Node.ELEMENT_NODE) {
+      const element = node as Element
+      const directives = getDirectives(element)
+      if (directives.elseIf !== undefined || directives.else) {
+        if (chain) {
+          chain.push({ element, condition: directives.elseIf })
+          chain = directives.elseIf !== undefined ? chain : null
+        } else {
+          console.warn(`<${element.tagName.toLowerCase()}> has else-if/else without a preceding if and is not rendered`)
+        }
+        whitespace = []
+        return
+      }
+      if (directives.if !== undefined && !directives.forEach) {
+        whitespace.forEach((space) => children.push({ node: space }))
+        whitespace = []
+        chain = [{ element, condition: directives.if }]
+        children.push({ branches: chain })
+        return
+      }
+    }
+
+    whitespace.forEach((space) => children.push({ node: space }))
+    whitespace = []
+    chain = null
+    children.push({ node })
+  })
+
+  whitespace.forEach((space) => children.push({ node: space }))
+  return children
+}
+
+/** Expression for the number of iterations of a loop */
+function toLoopLengthExpression(loop: LoopScope): string {
+  return `Array.from(${loop.list} ?? []).length`
+}
+
+function getLoopVariables(scopes: LoopScope[]): string[] {
+  return scopes.flatMap(({ item, index }) => (index ? [item, index] : [item]))
+}
+
+function usesLoopVariable(expr: string, loopVariables: string[]): boolean {
+  return loopVariables.some((name) =>
+    new RegExp(`(?<![\\w$])${name.replace(/\$/g, '\\$')}(?![\\w$])`).test(expr)
+  )
+}
+
+/**
+ * Expression as the engines evaluate it. Inside for-each loops, an expression that uses a loop variable
+ * is evaluated once for all iterations: it is wrapped in one Array.from per enclosing loop and yields
+ * nested arrays that getScopedResult indexes by the iteration path. An error in one iteration gives
+ * undefined for that iteration only, as in the code compileTemplateToJS generates. Expressions without
+ * loop variables (e.g. an action name) are evaluated as written.
+ */
+function toScopedExpression(expr: string, scopes: LoopScope[]): string {
+  expr = expr.trim()
+  if (!usesLoopVariable(expr, getLoopVariables(scopes))) {
+    return expr
+  }
+
+  let scoped = `{ try { return (${expr}\n) } catch { return undefined } }`
+  for (let depth = scopes.length - 1; depth >= 0; depth--) {
+    const { item, index, list } = scopes[depth]
+    scoped = `(Array.from(${list} ?? [], (${index ? `${item}, ${index}` : item}) => ${scoped}))`
+  }
+  return scoped
+}
+
+/**
+ * Result of an expression for one iteration
+ *
+ * @param path - Iteration index in each enclosing loop, outermost first
+ */
+function getScopedResult(results: Map<string, unknown>, expr: string, scopes: LoopScope[], path: number[]): unknown {
+  const scoped = toScopedExpression(expr, scopes)
+  let value = results.get(scoped)
+  if (scoped !== expr.trim()) {
+    path.forEach((index) => {
+      value = Array.isArray(value) ? value[index] : undefined
+    })
+  }
+  return value
+}
+
 // ============================================================================
 // JS Engine
 // ============================================================================
 
 class InlineJsEngine implements JSEngine {
-  async evaluateExpression(expr: string, context: Record<string, any>): Promise<any> {
+  async evaluateExpression(expr: string, context: Record<string, unknown>): Promise<unknown> {
     try {
       expr = expr.trim()
       const paramNames = Object.keys(context).filter(key =>
@@ -349,12 +667,13 @@ class InlineJsEngine implements JSEngine {
 
   async executeAction(
     code: string,
-    data: Record<string, any>,
-    setData: (update: any) => void
+    data: Record<string, unknown>,
+    setData: (update: Record<string, unknown>) => void,
+    context?: TemplateActionContext
   ): Promise<void> {
     try {
-      const paramNames = ['data', 'setData']
-      const paramValues = [data, setData]
+      const paramNames = ['data', 'setData', 'context']
+      const paramValues = [data, setData, context]
 
       const actionFunc = new Function(...paramNames, `return ${code}`)(...paramValues)
       actionFunc(...paramValues)
@@ -365,6 +684,9 @@ class InlineJsEngine implements JSEngine {
   }
 }
 
+// Per-expression outcome of a SANDBOX_EVAL_BATCH request
+type SandboxBatchResults = Array<{ result?: unknown; error?: string }>
+
 class IframeSandbox implements JSEngine {
   private iframe: HTMLIFrameElement | null = null
   private ready: boolean = false
@@ -406,6 +728,16 @@ class IframeSandbox implements JSEngine {
       }
     }
 
+    if (event.data.type === 'SANDBOX_BATCH_RESULT') {
+      const { id, results } = event.data
+      const request = this.pendingRequests.get(id)
+      // No pending request: cancelled or timed out, so the response is stale
+      if (request) {
+        this.pendingRequests.delete(id)
+        request.resolve(results)
+      }
+    }
+
     if (event.data.type === 'SANDBOX_INVOKE_HOST') {
       const { id, callbackName, args } = event.data
       const callbacks = this.methodCallbacks.get(id)
@@ -449,7 +781,7 @@ class IframeSandbox implements JSEngine {
     })
   }
 
-  async evaluateExpression(expr: string, context: Record<string, any>): Promise<any> {
+  async evaluateExpression(expr: string, context: Record<string, unknown>): Promise<unknown> {
     return this.ensureReady(() => {
       return new Promise((resolve, reject) => {
         this.sendEvaluationRequest(expr, context, resolve, reject)
@@ -457,14 +789,52 @@ class IframeSandbox implements JSEngine {
     })
   }
 
+  async evaluateExpressions(expressions: string[], context: Record<string, unknown>, signal?: AbortSignal): Promise<unknown[]> {
+    const results = await this.ensureReady(() => {
+      return new Promise<SandboxBatchResults>((resolve, reject) => {
+        if (signal?.aborted) {
+          reject(new DOMException('Evaluation cancelled', 'AbortError'))
+          return
+        }
+        const onAbort = () => {
+          if (this.pendingRequests.delete(id)) {
+            reject(new DOMException('Evaluation cancelled', 'AbortError'))
+          }
+        }
+        // Signals can outlive many requests (e.g. one per rendered data snapshot), so drop the listener once settled
+        const cleanup = () => signal?.removeEventListener('abort', onAbort)
+        const id = this.sendBatchEvaluationRequest(
+          expressions,
+          context,
+          (value) => {
+            cleanup()
+            resolve(value)
+          },
+          (error) => {
+            cleanup()
+            reject(error)
+          }
+        )
+        signal?.addEventListener('abort', onAbort, { once: true })
+      })
+    })
+    return results.map(({ result, error }, index) => {
+      if (error) {
+        console.error(`Error evaluating expression "${expressions[index]}":`, error)
+      }
+      return result
+    })
+  }
+
   async executeAction(
     code: string,
-    data: Record<string, any>,
-    setData: (update: any) => void
+    data: Record<string, unknown>,
+    setData: (update: Record<string, unknown>) => void,
+    context?: TemplateActionContext
   ): Promise<void> {
     return this.ensureReady(() => {
       return new Promise((resolve, reject) => {
-        this.sendActionExecutionRequest(code, data, setData, resolve, reject)
+        this.sendActionExecutionRequest(code, data, setData, context, resolve, reject)
       })
     })
   }
@@ -481,21 +851,24 @@ class IframeSandbox implements JSEngine {
 
   private sendActionExecutionRequest(
     actionCode: string,
-    data: Record<string, any>,
-    setData: (update: any) => void,
+    data: Record<string, unknown>,
+    setData: (update: Record<string, unknown>) => void,
+    context: TemplateActionContext | undefined,
     resolve: () => void,
-    reject: (error: any) => void
+    reject: (error: unknown) => void
   ) {
     const id = this.requestId++
     this.pendingRequests.set(id, { resolve, reject })
-    this.methodCallbacks.set(id, { setData })
+    this.methodCallbacks.set(id, { setData, emit: (event, payload) => context?.emit(event, payload) })
 
     this.iframe!.contentWindow!.postMessage(
       {
         type: 'SANDBOX_ACTION_EVAL',
         id,
         actionCode,
-        data: serializeForPostMessage(data)
+        data: serializeForPostMessage(data),
+        props: serializeForPostMessage(context?.props ?? {}),
+        payload: context?.payload
       },
       '*'
     )
@@ -525,6 +898,29 @@ class IframeSandbox implements JSEngine {
     this.setupTimeout(id, 10000, () => reject(new Error('Evaluation timeout')))
   }
 
+  private sendBatchEvaluationRequest(
+    expressions: string[],
+    context: Record<string, unknown>,
+    resolve: (results: SandboxBatchResults) => void,
+    reject: (error: unknown) => void
+  ): number {
+    const id = this.requestId++
+    this.pendingRequests.set(id, { resolve, reject })
+
+    this.iframe!.contentWindow!.postMessage(
+      {
+        type: 'SANDBOX_EVAL_BATCH',
+        id,
+        expressions,
+        context: serializeForPostMessage(context)
+      },
+      '*'
+    )
+
+    this.setupTimeout(id, 10000, () => reject(new Error('Evaluation timeout')))
+    return id
+  }
+
   destroy() {
     if (this.iframe && this.iframe.parentNode) {
       this.iframe.parentNode.removeChild(this.iframe)
@@ -535,13 +931,180 @@ class IframeSandbox implements JSEngine {
   }
 }
 
+// Request without its id (assigned by WorkerEngine.send)
+type WorkerRequestBody<R = WorkerRequest> = R extends WorkerRequest ? Omit<R, 'id'> : never
+
+type WorkerResults = Extract<WorkerResponse, { type: 'results' }>['results']
+
+// setData and emit calls of a running action, forwarded from the worker
+type WorkerActionCallbacks = {
+  setData: (update: Record<string, unknown>) => void
+  emit: TemplateActionContext['emit']
+}
+
+class WorkerEngine implements JSEngine {
+  private worker: Worker | null = null
+  private pendingRequests: Map<number, {
+    // Results of an evaluate request; an action resolves without
+    resolve: (results?: WorkerResults) => void
+    reject: (error: Error) => void
+    callbacks?: WorkerActionCallbacks
+    cleanup: () => void
+  }> = new Map()
+  private requestId: number = 0
+  private timeoutMs: number
+
+  /**
+   * @param timeoutMs - Time a request may run before the worker is terminated and respawned
+   */
+  constructor(timeoutMs: number = 5000) {
+    this.timeoutMs = timeoutMs
+  }
+
+  // The worker is spawned lazily, and again after a timeout or a crash
+  private getWorker(): Worker {
+    if (!this.worker) {
+      const worker = new Worker(new URL('./jsEngineWorker.ts', import.meta.url), { type: 'module' })
+      worker.addEventListener('message', (event: MessageEvent<WorkerResponse>) => this.handleMessage(event.data))
+      worker.addEventListener('error', (event) => {
+        event.preventDefault()
+        this.restart(new Error(`JS worker failed: ${event.message}`))
+      })
+      this.worker = worker
+    }
+    return this.worker
+  }
+
+  private handleMessage(message: WorkerResponse) {
+    const request = this.pendingRequests.get(message.id)
+    if (!request) {
+      // Cancelled or timed out
+      return
+    }
+
+    if (message.type === 'setData') {
+      request.callbacks?.setData(message.update as Record<string, unknown>)
+      return
+    }
+    if (message.type === 'emit') {
+      request.callbacks?.emit(message.event, message.payload)
+      return
+    }
+
+    request.cleanup()
+    if (message.type === 'results') {
+      request.resolve(message.results)
+    } else if (message.error) {
+      request.reject(new Error(message.error))
+    } else {
+      request.resolve()
+    }
+  }
+
+  /**
+   * Terminate the worker (e.g. stuck in an endless loop) and fail everything it was working on.
+   * The next request spawns a fresh worker.
+   */
+  private restart(error: Error) {
+    this.worker?.terminate()
+    this.worker = null
+    const requests = Array.from(this.pendingRequests.values())
+    requests.forEach((request) => {
+      request.cleanup()
+      request.reject(error)
+    })
+  }
+
+  private send(
+    body: WorkerRequestBody,
+    signal?: AbortSignal,
+    callbacks?: WorkerActionCallbacks
+  ): Promise<WorkerResults | undefined> {
+    if (signal?.aborted) {
+      return Promise.reject(new DOMException('Evaluation cancelled', 'AbortError'))
+    }
+
+    return new Promise((resolve, reject) => {
+      const id = this.requestId++
+      const onAbort = () => {
+        // The worker cannot be interrupted mid-evaluation; its response is dropped instead
+        cleanup()
+        reject(new DOMException('Evaluation cancelled', 'AbortError'))
+      }
+      const timer = setTimeout(() => {
+        this.restart(new Error(`${body.type === 'action' ? 'Action execution' : 'Evaluation'} timeout (JS worker restarted)`))
+      }, this.timeoutMs)
+      const cleanup = () => {
+        clearTimeout(timer)
+        signal?.removeEventListener('abort', onAbort)
+        this.pendingRequests.delete(id)
+      }
+
+      signal?.addEventListener('abort', onAbort)
+      this.pendingRequests.set(id, { resolve, reject, callbacks, cleanup })
+      this.getWorker().postMessage({ ...body, id })
+    })
+  }
+
+  async evaluateExpressions(expressions: string[], context: Record<string, unknown>, signal?: AbortSignal): Promise<unknown[]> {
+    const results = await this.send(
+      { type: 'evaluate', expressions, context: serializeForPostMessage(context) },
+      signal
+    )
+    return (results ?? []).map((result, index) => {
+      if (result.error !== undefined) {
+        console.error(`Error evaluating expression "${expressions[index]}":`, result.error)
+      }
+      return result.value
+    })
+  }
+
+  async evaluateExpression(expr: string, context: Record<string, unknown>): Promise<unknown> {
+    try {
+      const [value] = await this.evaluateExpressions([expr.trim()], context)
+      return value
+    } catch (error) {
+      console.error(`Error evaluating expression "${expr}":`, error)
+      return undefined
+    }
+  }
+
+  async executeAction(
+    code: string,
+    data: Record<string, unknown>,
+    setData: (update: Record<string, unknown>) => void,
+    context?: TemplateActionContext
+  ): Promise<void> {
+    await this.send(
+      {
+        type: 'action',
+        code,
+        data: serializeForPostMessage(data),
+        props: serializeForPostMessage(context?.props ?? {}),
+        payload: context?.payload
+      },
+      undefined,
+      { setData, emit: (event, payload) => context?.emit(event, payload) }
+    )
+  }
+
+  destroy() {
+    this.restart(new Error('JS worker destroyed'))
+  }
+}
+
 const engineInstances: Map<CompilationStrategy, JSEngine> = new Map()
 const engineMap: Record<Exclude<CompilationStrategy, 'blob'>, () => JSEngine> = {
   [COMPILATION_STRATEGIES.INLINE]: () => new InlineJsEngine(),
-  [COMPILATION_STRATEGIES.SANDBOX]: () => new IframeSandbox()
+  [COMPILATION_STRATEGIES.SANDBOX]: () => new IframeSandbox(),
+  [COMPILATION_STRATEGIES.QUICKJS]: () => new QuickJsEngine(),
+  [COMPILATION_STRATEGIES.WORKER]: () => new WorkerEngine()
 }
 
-function getJSEngine(strategy: CompilationStrategy = COMPILATION_STRATEGIES.INLINE): JSEngine {
+/**
+ * Shared engine of a strategy, created on first use. Exported for examples/templateDirectivesParity.ts.
+ */
+export function getJSEngine(strategy: CompilationStrategy = COMPILATION_STRATEGIES.INLINE): JSEngine {
   if (strategy === COMPILATION_STRATEGIES.BLOB) {
     throw new Error('BLOB compilation strategy does not use JSEngine - it uses static compilation instead')
   }
@@ -552,6 +1115,45 @@ function getJSEngine(strategy: CompilationStrategy = COMPILATION_STRATEGIES.INLI
   return engineInstances.get(strategy)!
 }
 
+// ============================================================================
+// Template Loading
+// ============================================================================
+
+/**
+ * Fetch and parse a template from public/templates
+ *
+ * @param name - Template file name without extension, e.g. "SamplePanel"
+ * @returns The parsed component definition
+ */
+export async function loadTemplate(name: string): Promise<ComponentDefinition> {
+  const res = await fetch(`${import.meta.env.BASE_URL}templates/${name}.yml`)
+  if (!res.ok) {
+    throw new Error(`Failed to load template: ${res.statusText}`)
+  }
+  const parsed = yaml.load(await res.text()) as ComponentDefinition | undefined
+  // The dev server answers unknown paths with index.html, which is not a template
+  if (typeof parsed?.view !== 'string') {
+    throw new Error(`Template "${name}" not found`)
+  }
+  return parsed
+}
+
+const templateComponents = new Map<string, Promise<ComponentType | null>>()
+
+/**
+ * Compile a template used as a tag in another template, once per page load
+ *
+ * @returns The compiled component, or null if there is no such template
+ */
+function loadTemplateComponent(name: string): Promise<ComponentType | null> {
+  let component = templateComponents.get(name)
+  if (!component) {
+    component = loadTemplate(name).then((config) => compileTemplate(config), () => null)
+    templateComponents.set(name, component)
+  }
+  return component
+}
+
 // ============================================================================
 // Component Helper
 // ============================================================================
@@ -595,8 +1197,21 @@ async function loadImportsFromView(view: string): Promise<Record<string, any>> {
       })()
       
       importPromises.push(loadPromise)
+    } else if (tagName.includes('-')) {
+      // Custom tag: another YAML template (<sample-panel> -> templates/SamplePanel.yml), compiled on
+      // first use. null marks "no such template", so the tag renders as a web component.
+      importPromises.push(
+        loadTemplateComponent(pascalName)
+          .catch((error) => {
+            console.error(`Failed to compile template "${pascalName}" for tag "${tagName}":`, error)
+            return null
+          })
+          .then((component) => {
+            importMap[pascalName] = component
+          })
+      )
     }
-    // If not found in registry, we'll use the original tagName as-is (OOTB element or web component)
+    // Otherwise we'll use the original tagName as-is (OOTB element)
   })
 
   // Wait for all imports to complete
@@ -616,7 +1231,8 @@ async function loadImportsFromView(view: string): Promise<Record<string, any>> {
 
 /**
  * Check if all components found in view are loaded
- * Components that exist in registry must be loaded, others (OOTB/web components) are always considered ready
+ * Components that exist in registry must be loaded, custom tags must have been looked up as templates,
+ * others (OOTB elements) are always considered ready
  */
 function checkImportsLoaded(
   view: string,
@@ -624,6 +1240,7 @@ function checkImportsLoaded(
 ): boolean {
   const elementNames = extractElementNames(view)
   const componentsToCheck: string[] = []
+  let templatesLoaded = true
 
   elementNames.forEach((tagName) => {
     const pascalName = toPascalCaseFromTag(tagName)
@@ -631,10 +1248,17 @@ function checkImportsLoaded(
     if (hasComponent(pascalName)) {
       // Check pascalName since that's what we store in importMap
       componentsToCheck.push(pascalName)
+    } else if (tagName.includes('-') && !(pascalName in imports)) {
+      // Template lookup still pending (null once it is known not to be a template)
+      templatesLoaded = false
     }
-    // OOTB elements and web components not in registry are always ready (no loading needed)
+    // OOTB elements not in registry are always ready (no loading needed)
   })
 
+  if (!templatesLoaded) {
+    return false
+  }
+
   if (componentsToCheck.length === 0) {
     return true
   }
@@ -675,9 +1299,9 @@ type CreateComponentDeps = {
   React: typeof React
   initializeDataFromConfig: typeof initializeDataFromConfig
   checkImportsLoaded: typeof checkImportsLoaded
-  renderTemplate: (data: Record<string, any>, actions: Record<string, Function>, imports: Record<string, any>, expressionResults: Map<string, any>) => ReactNode
-  parseActions: (actions: Record<string, string> | undefined, getData: () => Record<string, any>, setData: (data: Record<string, any>) => void) => Record<string, Function>
-  evaluateExpressions?: (view: string, data: Record<string, any>, actions: Record<string, Function>) => Promise<Map<string, any>>
+  renderTemplate: (data: Record<string, any>, actions: Record<string, Function>, imports: Record<string, any>, expressionResults: Map<string, any>, props: Record<string, unknown>) => ReactNode
+  parseActions: (actions: Record<string, string> | undefined, getData: () => Record<string, any>, setData: (data: Record<string, any>) => void, getActionContext: (payload?: unknown) => TemplateActionContext) => Record<string, Function>
+  evaluateExpressions?: (view: string, data: Record<string, any>, props: Record<string, unknown>, actions: Record<string, Function>, signal?: AbortSignal) => Promise<Map<string, unknown>>
 }
 
 function createComponent(
@@ -686,28 +1310,43 @@ function createComponent(
 ): ComponentType {
   const { React, initializeDataFromConfig, checkImportsLoaded, renderTemplate, parseActions, evaluateExpressions } = deps
 
-  return function CompiledTemplate() {
+  return function CompiledTemplate(props: Record<string, unknown>) {
     const [data, setData] = React.useState<Record<string, any>>({})
     const [actions, setActions] = React.useState<Record<string, Function>>({})
     const [imports, setImports] = React.useState<Record<string, any>>({})
     const [expressionResults, setExpressionResults] = React.useState<Map<string, any>>(new Map())
     const dataRef = React.useRef(data)
+    const propsRef = React.useRef(props)
+    const evaluationRef = React.useRef<{ data: Record<string, unknown>; propsKey: string; controller: AbortController } | null>(null)
+    const templateProps = React.useMemo(() => resolveTemplateProps(config.props, props), [props])
+    // Templates without data are ready right away
+    const hasData = Object.keys(data).length > 0 || !config.data || Object.keys(config.data).length === 0
 
     React.useEffect(() => {
       dataRef.current = data
     }, [data])
 
+    React.useEffect(() => {
+      propsRef.current = props
+    }, [props])
+
     React.useEffect(() => {
       const initialData = initializeDataFromConfig(config.data)
       setData(initialData)
     }, [config.data])
 
     React.useEffect(() => {
-      if (Object.keys(data).length > 0) {
-        const parsedActions = parseActions(config.actions, () => dataRef.current, setData)
+      if (hasData) {
+        // Actions read the latest props (including on<Event> handlers) when they run
+        const getActionContext = (payload?: unknown): TemplateActionContext => ({
+          props: resolveTemplateProps(config.props, propsRef.current),
+          payload: toActionPayload(payload),
+          emit: (event, eventPayload) => emitTemplateEvent(config, propsRef.current, event, eventPayload)
+        })
+        const parsedActions = parseActions(config.actions, () => dataRef.current, setData, getActionContext)
         setActions(parsedActions)
       }
-    }, [data, config.actions])
+    }, [data, hasData, config.actions])
 
     React.useEffect(() => {
       // Load components based on view elements
@@ -729,15 +1368,40 @@ function createComponent(
 
     React.useEffect(() => {
       if (evaluateExpressions) {
-        const hasData = Object.keys(data).length > 0
         // Components are always considered ready (OOTB elements don't need loading)
         if (hasData) {
-          evaluateExpressions(config.view, data, actions).then(setExpressionResults)
+          // New data or props make the previous evaluation stale, so cancel it. Re-runs for the same
+          // snapshot (actions or imports finished loading, or the parent re-rendering with equal
+          // props) keep it and share its results.
+          const propsKey = JSON.stringify(templateProps)
+          let evaluation = evaluationRef.current
+          if (evaluation?.data !== data || evaluation.propsKey !== propsKey) {
+            evaluation?.controller.abort()
+            evaluation = { data, propsKey, controller: new AbortController() }
+            evaluationRef.current = evaluation
+          }
+          const { signal } = evaluation.controller
+          let superseded = false
+          evaluateExpressions(config.view, data, templateProps, actions, signal)
+            .then((results) => {
+              // Drop responses that arrive after a newer render started
+              if (!superseded && !signal.aborted) {
+                setExpressionResults(results)
+              }
+            })
+            .catch((error) => {
+              if (!signal.aborted) {
+                console.error('Error evaluating expressions:', error)
+              }
+            })
+          return () => {
+            superseded = true
+          }
         }
       }
-    }, [config.view, data, actions, imports])
+    }, [config.view, data, hasData, templateProps, actions, imports])
 
-    if (config.actions && Object.keys(actions).length === 0 && Object.keys(data).length > 0) {
+    if (config.actions && Object.keys(actions).length === 0 && hasData) {
       return React.createElement('div', null, 'Loading actions...')
     }
 
@@ -750,7 +1414,7 @@ function createComponent(
       return React.createElement('div', null, 'Loading components...')
     }
 
-    const rendered = renderTemplate(data, actions, imports, expressionResults)
+    const rendered = renderTemplate(data, actions, imports, expressionResults, templateProps)
     return React.createElement(React.Fragment, null, rendered)
   }
 }
@@ -760,42 +1424,64 @@ function createComponent(
 // Template Compiler
 // ============================================================================
 
-function compileTemplateToJS(config: ComponentDefinition): string {
+/**
+ * Generate the BLOB strategy's module: `export default function createCompiledComponent(config, deps)`,
+ * with every expression inlined as JavaScript
+ */
+export function compileTemplateToJS(config: ComponentDefinition): string {
   const dataKeys = config.data ? Object.keys(config.data) : []
   const actionKeys = config.actions ? Object.keys(config.actions) : []
+  // Data and actions shadow props of the same name
+  const propKeys = config.props ? Object.keys(config.props).filter(key => !dataKeys.includes(key) && !actionKeys.includes(key)) : []
   
   // Prebuild component map: extract elements, convert to PascalCase, check registry
+  // Custom tags may be templates, which are only known once loaded, so they are looked up in imports too
   const elementNames = extractElementNames(config.view)
   const componentMap = new Map<string, { isRegistered: boolean; pascalName: string }>() // tagName -> { isRegistered, pascalName }
   elementNames.forEach(tagName => {
     const pascalName = toPascalCaseFromTag(tagName)
-    componentMap.set(tagName, { isRegistered: hasComponent(pascalName), pascalName })
+    componentMap.set(tagName, { isRegistered: hasComponent(pascalName) || tagName.includes('-'), pascalName })
   })
 
   // Compile template to JavaScript code
-  function exprToJS(expr: string): string {
+  /**
+   * @param localNames - Loop variables in scope, which shadow data, actions and props
+   */
+  function exprToJS(expr: string, localNames: string[] = []): string {
     expr = expr.trim()
+    const isGlobal = (key: string) => !localNames.includes(key)
 
-    if (dataKeys.includes(expr)) {
+    if (dataKeys.includes(expr) && isGlobal(expr)) {
       return `data.${expr}`
     }
-    if (actionKeys.includes(expr)) {
+    if (actionKeys.includes(expr) && isGlobal(expr)) {
       return `actions.${expr}`
     }
+    if (propKeys.includes(expr) && isGlobal(expr)) {
+      return `props.${expr}`
+    }
 
     // Components are HTML elements, not expressions - no need to handle them here
+    // Member names (item.count) are not variables, so they are left alone
     let jsExpr = expr
-    dataKeys.forEach(key => {
-      jsExpr = jsExpr.replace(new RegExp(`\\b${key}\\b`, 'g'), `data.${key}`)
+    dataKeys.filter(isGlobal).forEach(key => {
+      jsExpr = jsExpr.replace(new RegExp(`(?<!\\.)\\b${key}\\b`, 'g'), `data.${key}`)
+    })
+    actionKeys.filter(isGlobal).forEach(key => {
+      jsExpr = jsExpr.replace(new RegExp(`(?<!\\.)\\b${key}\\b`, 'g'), `actions.${key}`)
     })
-    actionKeys.forEach(key => {
-      jsExpr = jsExpr.replace(new RegExp(`\\b${key}\\b`, 'g'), `actions.${key}`)
+    propKeys.filter(isGlobal).forEach(key => {
+      jsExpr = jsExpr.replace(new RegExp(`(?<!\\.)\\b${key}\\b`, 'g'), `props.${key}`)
     })
 
+    // Like toScopedExpression for the other strategies: a throwing iteration gives undefined, not a failed render
+    if (usesLoopVariable(expr, localNames)) {
+      return `(() => { try { return (${jsExpr}\n) } catch { return undefined } })()`
+    }
     return jsExpr
   }
 
-  function textToJS(text: string): string {
+  function textToJS(text: string, localNames: string[]): string {
     if (!text.includes('{')) {
       return text ? JSON.stringify(text) : 'null'
     }
@@ -814,7 +1500,7 @@ function compileTemplateToJS(config: ComponentDefinition): string {
       }
       const exprEnd = text.indexOf('}', exprStart)
       if (exprEnd === -1) break
-      const expr = exprToJS(text.substring(exprStart + 1, exprEnd))
+      const expr = exprToJS(text.substring(exprStart + 1, exprEnd), localNames)
       parts.push(`String(${expr} ?? '')`)
       textIndex = exprEnd + 1
     }
@@ -824,56 +1510,95 @@ function compileTemplateToJS(config: ComponentDefinition): string {
     return `[${parts.join(', ')}].join('')`
   }
 
-  function attributesToJS(element: Element): string[] {
+  function attributesToJS(element: Element, localNames: string[]): string[] {
     const props: string[] = []
     const base = import.meta.env.BASE_URL
     Array.from(element.attributes).forEach((attr) => {
+      if (DIRECTIVE_ATTRIBUTES.includes(attr.name)) return
       const reactName = toReactPropName(attr.name)
       let value = attr.value
       if (value.startsWith('{') && value.endsWith('}')) {
-        props.push(`${reactName}: ${exprToJS(value.slice(1, -1))}`)
+        props.push(`${JSON.stringify(reactName)}: ${exprToJS(value.slice(1, -1), localNames)}`)
       } else {
         // Resolve absolute paths for src and href attributes
         if ((attr.name === 'src' || attr.name === 'href') && value.startsWith('/') && !value.startsWith('//')) {
           const basePath = base.endsWith('/') ? base.slice(0, -1) : base
           value = `${basePath}${value}`
         }
-        props.push(`${reactName}: ${JSON.stringify(value)}`)
+        props.push(`${JSON.stringify(reactName)}: ${JSON.stringify(value)}`)
       }
     })
     return props
   }
 
-  function nodeToJS(node: Node): string {
+  function childrenToJS(nodes: Node[], scopes: LoopScope[]): string[] {
+    const localNames = getLoopVariables(scopes)
+    const children: string[] = []
+    groupConditionalChains(nodes).forEach((child) => {
+      let childJS = 'null'
+      if ('branches' in child) {
+        // if/else-if/else -> cond1 ? a : cond2 ? b : c
+        for (let i = child.branches.length - 1; i >= 0; i--) {
+          const { element, condition } = child.branches[i]
+          const elementJS = elementToJS(element, scopes)
+          childJS = condition === undefined ? elementJS : `(${exprToJS(condition, localNames)}) ? ${elementJS} : ${childJS}`
+        }
+      } else {
+        childJS = nodeToJS(child.node, scopes)
+      }
+      if (childJS !== 'null') {
+        children.push(childJS)
+      }
+    })
+    return children
+  }
+
+  function nodeToJS(node: Node, scopes: LoopScope[]): string {
     if (node.nodeType === Node.TEXT_NODE) {
-      return textToJS(node.textContent || '')
+      return textToJS(node.textContent || '', getLoopVariables(scopes))
     }
 
     if (node.nodeType === Node.ELEMENT_NODE) {
-      const element = node as Element
-      const tagName = element.tagName.toLowerCase()
-      const props = attributesToJS(element)
-      const children: string[] = []
-
-      Array.from(element.childNodes).forEach((child) => {
-        const childJS = nodeToJS(child)
-        if (childJS !== 'null') {
-          children.push(childJS)
-        }
-      })
+      return elementToJS(node as Element, scopes)
+    }
 
-      // Use prebuilt component map: if registered, use imports[pascalName], otherwise use tagName
-      const componentInfo = componentMap.get(tagName)
-      const component = componentInfo?.isRegistered
-        ? `(imports[${JSON.stringify(componentInfo.pascalName)}] || ${JSON.stringify(tagName)})`
-        : JSON.stringify(tagName)
+    return 'null'
+  }
 
-      const propsStr = props.length > 0 ? `{ ${props.join(', ')} }` : '{}'
-      const childrenStr = children.length > 0 ? `, ${children.join(', ')}` : ''
-      return `React.createElement(${component}, ${propsStr}${childrenStr})`
+  function elementToJS(element: Element, scopes: LoopScope[]): string {
+    const { forEach, if: condition } = getDirectives(element)
+    if (!forEach) {
+      return createElementToJS(element, scopes)
     }
 
-    return 'null'
+    // One element per item, keyed by its key attribute or else its index
+    const loopScopes = [...scopes, forEach]
+    const index = forEach.index ?? `$index${scopes.length}`
+    const elementJS = createElementToJS(element, loopScopes, index)
+    const itemJS = condition === undefined
+      ? elementJS
+      : `(${exprToJS(condition, getLoopVariables(loopScopes))}) ? ${elementJS} : null`
+    const listJS = exprToJS(forEach.list, getLoopVariables(scopes))
+    return `Array.from(${listJS} ?? [], (${forEach.item}, ${index}) => ${itemJS})`
+  }
+
+  function createElementToJS(element: Element, scopes: LoopScope[], keyJS?: string): string {
+    const tagName = element.tagName.toLowerCase()
+    const props = attributesToJS(element, getLoopVariables(scopes))
+    if (keyJS && !element.hasAttribute('key')) {
+      props.push(`"key": ${keyJS}`)
+    }
+    const children = childrenToJS(Array.from(element.childNodes), scopes)
+
+    // Use prebuilt component map: if registered, use imports[pascalName], otherwise use tagName
+    const componentInfo = componentMap.get(tagName)
+    const component = componentInfo?.isRegistered
+      ? `(imports[${JSON.stringify(componentInfo.pascalName)}] || ${JSON.stringify(tagName)})`
+      : JSON.stringify(tagName)
+
+    const propsStr = props.length > 0 ? `{ ${props.join(', ')} }` : '{}'
+    const childrenStr = children.length > 0 ? `, ${children.join(', ')}` : ''
+    return `React.createElement(${component}, ${propsStr}${childrenStr})`
   }
 
   const parser = new DOMParser()
@@ -884,13 +1609,7 @@ function compileTemplateToJS(config: ComponentDefinition): string {
   if (!body || body.children.length === 0) {
     compiledView = 'null'
   } else {
-    const rootNodes: string[] = []
-    Array.from(body.children).forEach((node) => {
-      const js = nodeToJS(node)
-      if (js !== 'null') {
-        rootNodes.push(js)
-      }
-    })
+    const rootNodes = childrenToJS(Array.from(body.children), [])
 
     if (rootNodes.length === 0) {
       compiledView = 'null'
@@ -903,11 +1622,11 @@ function compileTemplateToJS(config: ComponentDefinition): string {
 
   const actionParsingCode = actionKeys.length > 0 ? actionKeys.map(key => {
     const actionCode = config.actions![key]
-    return `parsedActions[${JSON.stringify(key)}] = () => {
+    return `parsedActions[${JSON.stringify(key)}] = (payload) => {
           const currentData = getData();
           try {
             const actionFunc = ${actionCode};
-            actionFunc(currentData, setData);
+            actionFunc(currentData, setData, getActionContext(payload));
           } catch (error) {
             console.error(\`Error executing action ${JSON.stringify(key)}:\`, error);
           }
@@ -920,10 +1639,10 @@ function compileTemplateToJS(config: ComponentDefinition): string {
     config,
     {
       ...deps,
-      renderTemplate: (data, actions, imports, expressionResults) => {
+      renderTemplate: (data, actions, imports, expressionResults, props) => {
         return ${compiledView};
       },
-      parseActions: (actions, getData, setData) => {
+      parseActions: (actions, getData, setData, getActionContext) => {
         const parsedActions = {};
         ${actionParsingCode}
         return parsedActions;
@@ -937,7 +1656,7 @@ async function compileTemplateToJsBlobComponent(config: ComponentDefinition): Pr
   const componentCode = compileTemplateToJS(config)
   return loadComponentFromBlob(
     componentCode,
-    { data: config.data, view: config.view },
+    { data: config.data, view: config.view, actions: config.actions, props: config.props, emits: config.emits },
     {
       React,
       createComponent,
@@ -952,37 +1671,97 @@ function compileTemplateToInlineComponent(config: ComponentDefinition, effective
     React,
     initializeDataFromConfig,
     checkImportsLoaded,
+    ...createEngineTemplateDeps(config, () => getJSEngine(effectiveStrategy))
+  })
+}
+
+/**
+ * Callbacks for createComponent that evaluate the template's expressions and run its actions with a
+ * JSEngine (every strategy except BLOB). Exported for examples/templateDirectivesParity.ts, which renders
+ * with them outside a component to compare against the BLOB code.
+ *
+ * @param getEngine - Engine to use, looked up on each call
+ */
+export function createEngineTemplateDeps(
+  config: ComponentDefinition,
+  getEngine: () => JSEngine
+): Pick<CreateComponentDeps, 'renderTemplate' | 'parseActions' | 'evaluateExpressions'> {
+  // Expression results by data version and props, then expression. Pending results are cached too, so
+  // renders of one snapshot (e.g. when actions or imports finish loading) share a single evaluation.
+  const expressionCache = new Map<string, Map<string, Promise<unknown>>>()
+  function getCachedResults(snapshotKey: string): Map<string, Promise<unknown>> {
+    let cached = expressionCache.get(snapshotKey)
+    if (!cached) {
+      cached = new Map()
+      expressionCache.set(snapshotKey, cached)
+      if (expressionCache.size > MAX_CACHED_DATA_VERSIONS) {
+        expressionCache.delete(expressionCache.keys().next().value!)
+      }
+    }
+    return cached
+  }
+
+  return {
     renderTemplate: (_data, _actions, imports, expressionResults) => {
-      function evaluateExpression(expr: string): any {
-        return expressionResults?.get(expr) ?? undefined
+      function renderChildren(nodes: Node[], scopes: LoopScope[], path: number[]): ReactNode[] {
+        const children: ReactNode[] = []
+        groupConditionalChains(nodes).forEach((child, idx) => {
+          let reactNode: ReactNode = null
+          if ('branches' in child) {
+            const branch = child.branches.find(({ condition }) =>
+              condition === undefined || getScopedResult(expressionResults, condition, scopes, path)
+            )
+            reactNode = branch ? elementToReact(branch.element, scopes, path, idx) : null
+          } else {
+            reactNode = domToReact(child.node, scopes, path, idx)
+          }
+          if (reactNode !== null && reactNode !== undefined && typeof reactNode !== 'function') {
+            children.push(reactNode)
+          }
+        })
+        return children
       }
 
-      function domToReact(node: Node, key: number = 0): ReactNode {
+      function domToReact(node: Node, scopes: LoopScope[], path: number[], key: number = 0): ReactNode {
         if (node.nodeType === Node.TEXT_NODE) {
           const text = node.textContent || ''
-          return parseTextWithExpressions(text, evaluateExpression, key)
+          return parseTextWithExpressions(text, (expr) => getScopedResult(expressionResults, expr, scopes, path), key)
         }
 
         if (node.nodeType === Node.ELEMENT_NODE) {
-          const element = node as Element
-          const tagName = element.tagName.toLowerCase()
-          const attrs = parseAttributes(element, evaluateExpression)
-          const Component = resolveComponent(tagName, imports)
-
-          const children: ReactNode[] = []
-          Array.from(element.childNodes).forEach((child, idx) => {
-            const childNode = domToReact(child, idx)
-            if (childNode !== null && typeof childNode !== 'function') {
-              children.push(childNode)
-            }
-          })
-
-          return React.createElement(Component, { ...attrs, key }, ...children)
+          return elementToReact(node as Element, scopes, path, key)
         }
 
         return null
       }
 
+      function elementToReact(element: Element, scopes: LoopScope[], path: number[], key: number): ReactNode {
+        const { forEach, if: condition } = getDirectives(element)
+        if (!forEach) {
+          return createElement(element, scopes, path, key)
+        }
+
+        // One element per item, keyed by its key attribute or else its index
+        const length = Number(getScopedResult(expressionResults, toLoopLengthExpression(forEach), scopes, path) ?? 0)
+        const loopScopes = [...scopes, forEach]
+        const items: ReactNode[] = []
+        for (let index = 0; index < length; index++) {
+          const loopPath = [...path, index]
+          if (condition === undefined || getScopedResult(expressionResults, condition, loopScopes, loopPath)) {
+            items.push(createElement(element, loopScopes, loopPath, index))
+          }
+        }
+        return React.createElement(React.Fragment, { key }, items)
+      }
+
+      function createElement(element: Element, scopes: LoopScope[], path: number[], key: number): ReactNode {
+        const tagName = element.tagName.toLowerCase()
+        const attrs = parseAttributes(element, (expr) => getScopedResult(expressionResults, expr, scopes, path))
+        const Component = resolveComponent(tagName, imports)
+        const children = renderChildren(Array.from(element.childNodes), scopes, path)
+        return React.createElement(Component, { ...attrs, key: attrs.key ?? key }, ...children)
+      }
+
       const trimmedTemplate = config.view.trim()
       try {
         const parser = new DOMParser()
@@ -992,30 +1771,26 @@ function compileTemplateToInlineComponent(config: ComponentDefinition, effective
           return null
         }
 
-        const children: ReactNode[] = []
-        Array.from(body.children).forEach((node, idx) => {
-          const reactNode = domToReact(node, idx)
-          if (reactNode !== null && reactNode !== undefined) {
-            children.push(reactNode)
-          }
-        })
-
+        const children = renderChildren(Array.from(body.children), [], [])
+        if (children.length === 0) {
+          return null
+        }
         return children.length === 1 ? children[0] : React.createElement(React.Fragment, null, ...children)
       } catch (error) {
         console.error('Error parsing template with DOMParser:', error)
         return null
       }
     },
-    parseActions: (actions, getData, setData) => {
+    parseActions: (actions, getData, setData, getActionContext) => {
       const parsedActions: Record<string, Function> = {}
       if (actions) {
         Object.keys(actions).forEach((actionName) => {
           const actionStr = actions[actionName]
-          parsedActions[actionName] = async () => {
+          parsedActions[actionName] = async (payload?: unknown) => {
             const currentData = getData()
             try {
-              const engine = getJSEngine(effectiveStrategy)
-              await engine.executeAction(actionStr, currentData, setData)
+              const engine = getEngine()
+              await engine.executeAction(actionStr, currentData, setData, getActionContext(payload))
             } catch (error) {
               console.error(`Error executing action ${actionName}:`, error)
             }
@@ -1024,31 +1799,41 @@ function compileTemplateToInlineComponent(config: ComponentDefinition, effective
       }
       return parsedActions
     },
-    evaluateExpressions: async (view, data, actions) => {
+    evaluateExpressions: async (view, data, props, actions, signal) => {
       const expressions = extractExpressions(view)
       if (expressions.length === 0) {
         return new Map()
       }
 
-      // Components are HTML elements, not part of expression context
-      const context: Record<string, any> = { ...data }
+      // Bare action names resolve to the parsed actions, which change without the data changing
+      const isActionName = (expr: string) => /^[a-zA-Z_$][a-zA-Z0-9_$]*$/.test(expr) && Boolean(actions[expr])
+      const cached = getCachedResults(`${getDataVersion(data)}:${JSON.stringify(props)}`)
+      const missing = expressions.filter((expr) => !isActionName(expr) && !cached.has(expr))
+
+      if (missing.length > 0) {
+        // Components are HTML elements, not part of expression context; data shadows props
+        const context: Record<string, unknown> = { ...props, ...data }
+        const engine = getEngine()
+        // One snapshot and, where the engine supports it, one round trip for the whole render
+        const values: Promise<unknown[]> = engine.evaluateExpressions
+          ? engine.evaluateExpressions(missing, context, signal)
+          : Promise.all(missing.map((expr) => evaluateExpressionAsync(expr, context, engine)))
+        missing.forEach((expr, index) => {
+          cached.set(expr, values.then((results) => results[index]))
+        })
+        // Cancelled or failed: the next render asks the engine again
+        values.catch(() => missing.forEach((expr) => cached.delete(expr)))
+      }
 
-      const results = new Map<string, any>()
+      const results = new Map<string, unknown>()
       await Promise.all(
         expressions.map(async (expr) => {
-          try {
-            const result = await evaluateExpressionAsync(expr, context, effectiveStrategy, actions)
-            results.set(expr, result)
-          } catch (error) {
-            console.error(`Error evaluating expression "${expr}":`, error)
-            results.set(expr, undefined)
-          }
+          results.set(expr, isActionName(expr) ? actions[expr] : await cached.get(expr))
         })
       )
-
       return results
     }
-  })
+  }
 }
 
 export async function compileTemplate(config: ComponentDefinition, compilationStrategy?: CompilationStrategy): Promise<ComponentType> {
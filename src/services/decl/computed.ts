@@ -0,0 +1,81 @@
+/**
+ * DECL Computed Values
+ *
+ * spec.computed maps store paths to expression templates over other paths, e.g.
+ * { "order.total": "{order.qty * order.price}", "user.fullName": "{user.first} {user.last}" }.
+ * applyComputed evaluates them against the store (in dependency order, so computed values can use
+ * other computed values) and writes the results at their paths in a copy of the store.
+ *
+ * The renderer calls applyComputed whenever the store changes, so computed values never go stale.
+ * Entries that depend on themselves (directly or through other entries) are skipped.
+ */
+
+import type { DeclComputed, DeclData } from './types'
+import { collectExpressionPaths, parseTemplate, resolveTemplate } from './expression'
+import { getNestedValue, setDataPath } from './utils'
+
+/**
+ * True if reading `read` can observe the value written at `written` (same path, parent or child).
+ */
+function pathsOverlap(read: string, written: string): boolean {
+  return read === written || read.startsWith(`${written}.`) || written.startsWith(`${read}.`)
+}
+
+/**
+ * Order computed paths so each entry comes after the computed entries it reads.
+ *
+ * @returns order - paths in evaluation order; cycles - paths that are part of (or depend on) a cycle
+ */
+export function orderComputed(computed: DeclComputed): { order: string[]; cycles: string[] } {
+  const paths = Object.keys(computed)
+  const dependencies = new Map<string, string[]>()
+  for (const path of paths) {
+    const reads = parseTemplate(String(computed[path])).flatMap((segment) =>
+      segment.type === 'expression' ? collectExpressionPaths(segment.ast) : []
+    )
+    dependencies.set(path, paths.filter((other) => other !== path && reads.some((read) => pathsOverlap(read, other))))
+    if (reads.some((read) => pathsOverlap(read, path))) dependencies.get(path)!.push(path)
+  }
+
+  const order: string[] = []
+  const cycles: string[] = []
+  const state = new Map<string, 'visiting' | 'done' | 'cycle'>()
+  const visit = (path: string): boolean => {
+    const current = state.get(path)
+    if (current === 'done') return true
+    if (current === 'visiting' || current === 'cycle') return false
+    state.set(path, 'visiting')
+    let ok = true
+    for (const dependency of dependencies.get(path) ?? []) {
+      if (!visit(dependency)) ok = false
+    }
+    state.set(path, ok ? 'done' : 'cycle')
+    if (ok) order.push(path)
+    else cycles.push(path)
+    return ok
+  }
+  paths.forEach(visit)
+
+  return { order, cycles }
+}
+
+/**
+ * Return a copy of data with every computed path set to its evaluated value.
+ * Returns data itself when there is nothing to compute.
+ *
+ * @example
+ * ```ts
+ * applyComputed({ qty: 2, price: 3 }, { total: '{qty * price}' }) // { qty: 2, price: 3, total: 6 }
+ * ```
+ */
+export function applyComputed(data: DeclData, computed: DeclComputed | undefined): DeclData {
+  if (!computed || Object.keys(computed).length === 0) return data
+
+  let result = data
+  for (const path of orderComputed(computed).order) {
+    const current = result
+    const value = resolveTemplate(String(computed[path]), (read) => getNestedValue(current, read))
+    result = setDataPath(result, path, value)
+  }
+  return result
+}
@@ -0,0 +1,476 @@
+/**
+ * DECL Expression Language
+ *
+ * Safe, non-eval expressions for DECL props and action params. A string prop may contain "{...}"
+ * segments; each segment is parsed into an AST and evaluated against the data store, never with
+ * eval or new Function.
+ *
+ * - "{user.name}"               → the raw value (any type), same as a plain store reference
+ * - "Hello {user.name}!"        → string interpolation (null/undefined render as "")
+ * - "{items.length > 0 && !busy}", "{count * price}", "{age >= 18 ? 'adult' : 'minor'}"
+ * - "{upper(user.name)}", "{number(total, 2)}", "{date(createdAt, 'long')}"
+ *
+ * Grammar (lowest to highest precedence): ternary `? :`, `??`, `||`, `&&`, `== != === !==`,
+ * `< <= > >=`, `+ -`, `* / %`, unary `! -`, then paths (`a.b.0`), indexing (`a[i]`), calls to the
+ * functions in EXPRESSION_FUNCTIONS, literals (numbers, 'single' or "double" quoted strings,
+ * true/false/null) and parentheses. `==` and `===` both compare strictly.
+ */
+
+export type ExpressionNode =
+  | { type: 'literal'; value: string | number | boolean | null }
+  | { type: 'path'; path: string }
+  | { type: 'member'; object: ExpressionNode; property: ExpressionNode }
+  | { type: 'unary'; operator: '!' | '-'; argument: ExpressionNode }
+  | { type: 'binary'; operator: string; left: ExpressionNode; right: ExpressionNode }
+  | { type: 'logical'; operator: '&&' | '||' | '??'; left: ExpressionNode; right: ExpressionNode }
+  | { type: 'conditional'; test: ExpressionNode; consequent: ExpressionNode; alternate: ExpressionNode }
+  | { type: 'call'; name: string; args: ExpressionNode[] }
+
+/**
+ * A piece of a prop string: literal text, a parsed "{...}" expression, or one that failed to parse.
+ */
+export type TemplateSegment =
+  | { type: 'text'; text: string }
+  | { type: 'expression'; source: string; ast: ExpressionNode }
+  | { type: 'error'; source: string; message: string }
+
+/**
+ * Resolves a dot-separated path (e.g. "user.name", "item.email") to a value.
+ */
+export type PathLookup = (path: string) => unknown
+
+// ============================================================================
+// Functions
+// ============================================================================
+
+const DATE_STYLES = ['short', 'medium', 'long', 'full'] as const
+
+function toDate(value: unknown): Date | null {
+  if (value instanceof Date) return value
+  if (typeof value !== 'string' && typeof value !== 'number') return null
+  const date = new Date(value)
+  return Number.isNaN(date.getTime()) ? null : date
+}
+
+/**
+ * Functions callable from expressions. Anything else is a syntax error.
+ */
+const EXPRESSION_FUNCTIONS: Record<string, (...args: unknown[]) => unknown> = {
+  /** upper(text) - uppercase */
+  upper: (value) => (value == null ? '' : String(value).toUpperCase()),
+  /** lower(text) - lowercase */
+  lower: (value) => (value == null ? '' : String(value).toLowerCase()),
+  /** number(value, digits?) - locale-formatted number, with exactly `digits` fraction digits when given */
+  number: (value, digits) => {
+    const num = typeof value === 'number' ? value : Number(value)
+    if (value == null || value === '' || Number.isNaN(num)) return ''
+    const fractionDigits = typeof digits === 'number' ? Math.max(0, Math.min(20, Math.floor(digits))) : undefined
+    return new Intl.NumberFormat(undefined, {
+      minimumFractionDigits: fractionDigits,
+      maximumFractionDigits: fractionDigits
+    }).format(num)
+  },
+  /** date(value, style?) - locale-formatted date; style is short | medium (default) | long | full | iso */
+  date: (value, style) => {
+    const date = toDate(value)
+    if (!date) return ''
+    if (style === 'iso') return date.toISOString().slice(0, 10)
+    const dateStyle = DATE_STYLES.find((s) => s === style) ?? 'medium'
+    return new Intl.DateTimeFormat(undefined, { dateStyle }).format(date)
+  }
+}
+
+// Property names that must never be read through an expression
+const BLOCKED_PROPERTIES = new Set(['__proto__', 'prototype', 'constructor'])
+
+// ============================================================================
+// Tokenizer
+// ============================================================================
+
+type Token =
+  | { type: 'number'; value: number; raw: string; position: number }
+  | { type: 'string'; value: string; position: number }
+  | { type: 'identifier'; value: string; position: number }
+  | { type: 'operator'; value: string; position: number }
+
+// Longest first so "===" wins over "==" and "="
+const OPERATORS = [
+  '===', '!==', '==', '!=', '<=', '>=', '&&', '||', '??',
+  '<', '>', '+', '-', '*', '/', '%', '!', '?', ':', '(', ')', '[', ']', '.', ','
+]
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = []
+  let i = 0
+  while (i < source.length) {
+    const char = source[i]
+    if (/\s/.test(char)) {
+      i++
+      continue
+    }
+
+    const number = /^\d+(\.\d+)?([eE][+-]?\d+)?/.exec(source.slice(i))
+    if (number) {
+      tokens.push({ type: 'number', value: Number(number[0]), raw: number[0], position: i })
+      i += number[0].length
+      continue
+    }
+
+    const identifier = /^[A-Za-z_$][\w$]*/.exec(source.slice(i))
+    if (identifier) {
+      tokens.push({ type: 'identifier', value: identifier[0], position: i })
+      i += identifier[0].length
+      continue
+    }
+
+    if (char === '"' || char === "'") {
+      let value = ''
+      let j = i + 1
+      while (j < source.length && source[j] !== char) {
+        if (source[j] === '\\' && j + 1 < source.length) {
+          const escaped = source[j + 1]
+          value += escaped === 'n' ? '\n' : escaped === 't' ? '\t' : escaped
+          j += 2
+        } else {
+          value += source[j++]
+        }
+      }
+      if (j >= source.length) throw new Error(`Unterminated string at ${i}`)
+      tokens.push({ type: 'string', value, position: i })
+      i = j + 1
+      continue
+    }
+
+    const operator = OPERATORS.find((op) => source.startsWith(op, i))
+    if (!operator) throw new Error(`Unexpected character "${char}" at ${i}`)
+    tokens.push({ type: 'operator', value: operator, position: i })
+    i += operator.length
+  }
+  return tokens
+}
+
+// ============================================================================
+// Parser
+// ============================================================================
+
+const BINARY_PRECEDENCE: string[][] = [
+  ['==', '!=', '===', '!=='],
+  ['<', '<=', '>', '>='],
+  ['+', '-'],
+  ['*', '/', '%']
+]
+
+/**
+ * Parse an expression (the text between "{" and "}") into an AST.
+ * Throws an Error describing the first syntax error, including calls to unknown functions.
+ */
+export function parseExpression(source: string): ExpressionNode {
+  const tokens = tokenize(source)
+  let index = 0
+
+  const peek = () => tokens[index]
+  const isOperator = (value: string) => peek()?.type === 'operator' && peek().value === value
+  const describe = (token: Token | undefined) => (token ? `"${'raw' in token ? token.raw : token.value}" at ${token.position}` : 'end of expression')
+  const expect = (value: string) => {
+    if (!isOperator(value)) throw new Error(`Expected "${value}" but found ${describe(peek())}`)
+    index++
+  }
+
+  function parseConditional(): ExpressionNode {
+    const test = parseLogical(0)
+    if (!isOperator('?')) return test
+    index++
+    const consequent = parseConditional()
+    expect(':')
+    const alternate = parseConditional()
+    return { type: 'conditional', test, consequent, alternate }
+  }
+
+  // ?? binds loosest, then ||, then &&
+  const LOGICAL_OPERATORS = ['??', '||', '&&'] as const
+  function parseLogical(level: number): ExpressionNode {
+    if (level >= LOGICAL_OPERATORS.length) return parseBinary(0)
+    const operator = LOGICAL_OPERATORS[level]
+    let left = parseLogical(level + 1)
+    while (isOperator(operator)) {
+      index++
+      left = { type: 'logical', operator, left, right: parseLogical(level + 1) }
+    }
+    return left
+  }
+
+  function parseBinary(level: number): ExpressionNode {
+    if (level >= BINARY_PRECEDENCE.length) return parseUnary()
+    let left = parseBinary(level + 1)
+    while (peek()?.type === 'operator' && BINARY_PRECEDENCE[level].includes(peek().value as string)) {
+      const operator = tokens[index++].value as string
+      left = { type: 'binary', operator, left, right: parseBinary(level + 1) }
+    }
+    return left
+  }
+
+  function parseUnary(): ExpressionNode {
+    if (isOperator('!') || isOperator('-')) {
+      const operator = tokens[index++].value as '!' | '-'
+      return { type: 'unary', operator, argument: parseUnary() }
+    }
+    return parsePostfix(parsePrimary())
+  }
+
+  function parsePostfix(node: ExpressionNode): ExpressionNode {
+    for (;;) {
+      if (isOperator('.')) {
+        index++
+        const token = peek()
+        // items.0 lexes as a number; items.0.1 lexes as the number "0.1"
+        const segment = token?.type === 'identifier' ? token.value
+          : token?.type === 'number' && /^\d+(\.\d+)*$/.test(token.raw) ? token.raw
+          : null
+        if (segment === null) throw new Error(`Expected a property name but found ${describe(token)}`)
+        index++
+        node = node.type === 'path'
+          ? { type: 'path', path: `${node.path}.${segment}` }
+          : segment.split('.').reduce<ExpressionNode>(
+              (object, name) => ({ type: 'member', object, property: { type: 'literal', value: name } }),
+              node
+            )
+      } else if (isOperator('[')) {
+        index++
+        const property = parseConditional()
+        expect(']')
+        node = { type: 'member', object: node, property }
+      } else {
+        return node
+      }
+    }
+  }
+
+  function parsePrimary(): ExpressionNode {
+    const token = peek()
+    if (!token) throw new Error('Unexpected end of expression')
+    index++
+
+    if (token.type === 'number' || token.type === 'string') {
+      return { type: 'literal', value: token.value }
+    }
+    if (token.type === 'identifier') {
+      if (token.value === 'true' || token.value === 'false') return { type: 'literal', value: token.value === 'true' }
+      if (token.value === 'null') return { type: 'literal', value: null }
+      if (isOperator('(')) {
+        if (!(token.value in EXPRESSION_FUNCTIONS)) {
+          throw new Error(`Unknown function "${token.value}" (available: ${Object.keys(EXPRESSION_FUNCTIONS).join(', ')})`)
+        }
+        index++
+        const args: ExpressionNode[] = []
+        while (!isOperator(')')) {
+          args.push(parseConditional())
+          if (!isOperator(')')) expect(',')
+        }
+        index++
+        return { type: 'call', name: token.value, args }
+      }
+      return { type: 'path', path: token.value }
+    }
+    if (token.value === '(') {
+      const node = parseConditional()
+      expect(')')
+      return node
+    }
+    throw new Error(`Unexpected ${describe(token)}`)
+  }
+
+  if (tokens.length === 0) throw new Error('Empty expression')
+  const ast = parseConditional()
+  if (index < tokens.length) throw new Error(`Unexpected ${describe(peek())}`)
+  return ast
+}
+
+// ============================================================================
+// Evaluator
+// ============================================================================
+
+function readProperty(object: unknown, property: unknown): unknown {
+  if (object == null || (typeof object !== 'object' && typeof object !== 'string')) return undefined
+  const name = String(property)
+  if (BLOCKED_PROPERTIES.has(name)) return undefined
+  if (typeof object === 'string') return name === 'length' ? object.length : undefined
+  if (Array.isArray(object) && name === 'length') return object.length
+  return Object.prototype.hasOwnProperty.call(object, name) ? (object as Record<string, unknown>)[name] : undefined
+}
+
+function toNumber(value: unknown): number {
+  return typeof value === 'number' ? value : Number(value)
+}
+
+function applyBinary(operator: string, left: unknown, right: unknown): unknown {
+  switch (operator) {
+    case '==':
+    case '===': return left === right
+    case '!=':
+    case '!==': return left !== right
+    case '<': return (left as number) < (right as number)
+    case '<=': return (left as number) <= (right as number)
+    case '>': return (left as number) > (right as number)
+    case '>=': return (left as number) >= (right as number)
+    case '+':
+      return typeof left === 'string' || typeof right === 'string'
+        ? `${left ?? ''}${right ?? ''}`
+        : toNumber(left) + toNumber(right)
+    case '-': return toNumber(left) - toNumber(right)
+    case '*': return toNumber(left) * toNumber(right)
+    case '/': return toNumber(left) / toNumber(right)
+    case '%': return toNumber(left) % toNumber(right)
+    default: return undefined
+  }
+}
+
+/**
+ * Evaluate a parsed expression. Never throws: missing paths evaluate to undefined.
+ *
+ * @param node - AST from parseExpression
+ * @param lookup - Resolves paths against the store (and Repeat scope)
+ */
+export function evaluateExpression(node: ExpressionNode, lookup: PathLookup): unknown {
+  switch (node.type) {
+    case 'literal':
+      return node.value
+    case 'path':
+      return node.path.split('.').some((part) => BLOCKED_PROPERTIES.has(part)) ? undefined : lookup(node.path)
+    case 'member':
+      return readProperty(evaluateExpression(node.object, lookup), evaluateExpression(node.property, lookup))
+    case 'unary': {
+      const value = evaluateExpression(node.argument, lookup)
+      return node.operator === '!' ? !value : -toNumber(value)
+    }
+    case 'logical': {
+      const left = evaluateExpression(node.left, lookup)
+      if (node.operator === '&&') return left ? evaluateExpression(node.right, lookup) : left
+      if (node.operator === '||') return left ? left : evaluateExpression(node.right, lookup)
+      return left ?? evaluateExpression(node.right, lookup)
+    }
+    case 'binary':
+      return applyBinary(node.operator, evaluateExpression(node.left, lookup), evaluateExpression(node.right, lookup))
+    case 'conditional':
+      return evaluateExpression(node.test, lookup)
+        ? evaluateExpression(node.consequent, lookup)
+        : evaluateExpression(node.alternate, lookup)
+    case 'call':
+      return EXPRESSION_FUNCTIONS[node.name](...node.args.map((arg) => evaluateExpression(arg, lookup)))
+  }
+}
+
+/**
+ * Collect the store paths an expression reads (e.g. ["qty", "price"] for "qty * price").
+ */
+export function collectExpressionPaths(node: ExpressionNode, paths: string[] = []): string[] {
+  switch (node.type) {
+    case 'path':
+      paths.push(node.path)
+      break
+    case 'member':
+      collectExpressionPaths(node.object, paths)
+      collectExpressionPaths(node.property, paths)
+      break
+    case 'unary':
+      collectExpressionPaths(node.argument, paths)
+      break
+    case 'binary':
+    case 'logical':
+      collectExpressionPaths(node.left, paths)
+      collectExpressionPaths(node.right, paths)
+      break
+    case 'conditional':
+      collectExpressionPaths(node.test, paths)
+      collectExpressionPaths(node.consequent, paths)
+      collectExpressionPaths(node.alternate, paths)
+      break
+    case 'call':
+      node.args.forEach((arg) => collectExpressionPaths(arg, paths))
+      break
+  }
+  return paths
+}
+
+// ============================================================================
+// Templates
+// ============================================================================
+
+// Parsed templates by source text; props are re-resolved on every render
+const templateCache = new Map<string, TemplateSegment[]>()
+const TEMPLATE_CACHE_LIMIT = 1000
+
+/**
+ * Split a prop string into literal text and "{...}" expression segments.
+ * A "{" without a matching "}" is literal text; quoted strings inside an expression may contain braces.
+ */
+export function parseTemplate(text: string): TemplateSegment[] {
+  const cached = templateCache.get(text)
+  if (cached) return cached
+
+  const segments: TemplateSegment[] = []
+  let textStart = 0
+  let i = text.indexOf('{')
+  while (i !== -1) {
+    // Find the closing brace, skipping quoted strings
+    let end = -1
+    let quote: string | null = null
+    for (let j = i + 1; j < text.length; j++) {
+      const char = text[j]
+      if (quote) {
+        if (char === '\\') j++
+        else if (char === quote) quote = null
+      } else if (char === '"' || char === "'") {
+        quote = char
+      } else if (char === '}') {
+        end = j
+        break
+      }
+    }
+    if (end === -1) break
+
+    if (i > textStart) segments.push({ type: 'text', text: text.slice(textStart, i) })
+    const source = text.slice(i + 1, end)
+    try {
+      segments.push({ type: 'expression', source, ast: parseExpression(source) })
+    } catch (err: unknown) {
+      segments.push({ type: 'error', source, message: err instanceof Error ? err.message : String(err) })
+    }
+    textStart = end + 1
+    i = text.indexOf('{', textStart)
+  }
+  if (textStart < text.length) segments.push({ type: 'text', text: text.slice(textStart) })
+
+  if (templateCache.size >= TEMPLATE_CACHE_LIMIT) templateCache.clear()
+  templateCache.set(text, segments)
+  return segments
+}
+
+/**
+ * Resolve a prop string against the store.
+ * - Exactly one "{expr}" and nothing else: the expression's value, whatever its type
+ * - Text with "{expr}" segments: a string with each value interpolated (null/undefined as "")
+ * - No expressions: the text unchanged
+ * Segments that fail to parse are kept as literal text.
+ *
+ * @example
+ * ```ts
+ * resolveTemplate('{items.length > 0}', lookup)   // true
+ * resolveTemplate('Hello {upper(name)}!', lookup) // "Hello ANN!"
+ * ```
+ */
+export function resolveTemplate(text: string, lookup: PathLookup): unknown {
+  if (!text.includes('{')) return text
+  const segments = parseTemplate(text)
+  if (segments.length === 1 && segments[0].type === 'expression') {
+    return evaluateExpression(segments[0].ast, lookup)
+  }
+  return segments
+    .map((segment) => {
+      if (segment.type === 'text') return segment.text
+      if (segment.type === 'error') return `{${segment.source}}`
+      const value = evaluateExpression(segment.ast, lookup)
+      if (value == null) return ''
+      return typeof value === 'object' ? JSON.stringify(value) : String(value)
+    })
+    .join('')
+}
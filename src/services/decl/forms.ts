@@ -0,0 +1,131 @@
+/**
+ * DECL Form State
+ *
+ * A Form node with a dataBind owns the data subtree at that path (e.g. "profile"). Its state lives in
+ * the store at $form.<formKey> (kept apart from user data, which often lives under "form"), so views
+ * can read "{$form.profileForm.dirty}":
+ *
+ *   { dirty, touched, submitting, submitted, error, initial }
+ *
+ * - touched / dirty: updated by createDataBind writes under the subtree (dirty compares field values
+ *   with `initial`, the subtree as it was before the first edit)
+ * - submitting / submitted / error: updated around actions that validate the subtree (e.g. submit)
+ * - resetForm restores `initial` and clears the flags
+ *
+ * Until a form is first edited or submitted its state is absent, so every flag reads as undefined (falsy).
+ */
+
+import type { DeclData, DeclNode } from './types'
+import { getNestedValue, setDataPath } from './utils'
+import { getActionDefinition } from '../actions'
+
+export interface DeclFormState {
+  dirty: boolean
+  touched: boolean
+  submitting: boolean
+  submitted: boolean
+  error: string | null
+  /** Subtree as it was before the first edit (used by dirty and reset) */
+  initial?: unknown
+}
+
+/** Store key under which every form's state is kept */
+export const FORM_STATE_ROOT = '$form'
+
+const EMPTY_FORM_STATE: DeclFormState = { dirty: false, touched: false, submitting: false, submitted: false, error: null }
+
+function pathsOverlap(a: string, b: string): boolean {
+  return a === '' || b === '' || a === b || a.startsWith(`${b}.`) || b.startsWith(`${a}.`)
+}
+
+/**
+ * Field values of a subtree, ignoring Property metadata such as valid/error (used for dirty checks).
+ */
+function collectValues(value: unknown): unknown {
+  if (value == null || typeof value !== 'object') return value
+  if (Array.isArray(value)) return value.map(collectValues)
+  if ('value' in value && ('type' in value || 'name' in value)) return (value as { value: unknown }).value
+  return Object.fromEntries(Object.entries(value).map(([key, child]) => [key, collectValues(child)]))
+}
+
+/**
+ * Forms whose data subtree overlaps path.
+ *
+ * @returns Form node key and data path of each form
+ */
+export function findForms(declNodes: Map<string, DeclNode>, path: string): { key: string; dataPath: string }[] {
+  const forms: { key: string; dataPath: string }[] = []
+  for (const [key, node] of declNodes) {
+    const dataPath = node.type === 'Form' ? node.props?.dataBind : undefined
+    if (typeof dataPath === 'string' && dataPath && pathsOverlap(dataPath, path)) {
+      forms.push({ key, dataPath })
+    }
+  }
+  return forms
+}
+
+export function getFormState(data: DeclData, formKey: string): DeclFormState {
+  return { ...EMPTY_FORM_STATE, ...getNestedValue(data, `${FORM_STATE_ROOT}.${formKey}`) }
+}
+
+function setFormState(data: DeclData, formKey: string, patch: Partial<DeclFormState>): DeclData {
+  return setDataPath(data, `${FORM_STATE_ROOT}.${formKey}`, { ...getFormState(data, formKey), ...patch })
+}
+
+/**
+ * Update touched/dirty of the forms owning writtenPath after a write.
+ *
+ * @param prev - Store before the write (source of the initial snapshot on the first edit)
+ * @param next - Store after the write
+ */
+export function trackFormWrite(prev: DeclData, next: DeclData, writtenPath: string, declNodes: Map<string, DeclNode>): DeclData {
+  // Writes to the form state itself do not touch the form
+  if (writtenPath === FORM_STATE_ROOT || writtenPath.startsWith(`${FORM_STATE_ROOT}.`)) return next
+  let result = next
+  for (const { key, dataPath } of findForms(declNodes, writtenPath)) {
+    const state = getFormState(prev, key)
+    const initial = state.initial !== undefined ? state.initial : getNestedValue(prev, dataPath)
+    const dirty = JSON.stringify(collectValues(getNestedValue(result, dataPath))) !== JSON.stringify(collectValues(initial))
+    result = setFormState(result, key, { initial, dirty, touched: true })
+  }
+  return result
+}
+
+/**
+ * Set state on every form owning path (e.g. submitting around a submit action).
+ */
+export function setFormsState(
+  data: DeclData,
+  path: string,
+  declNodes: Map<string, DeclNode>,
+  patch: Partial<DeclFormState>
+): DeclData {
+  return findForms(declNodes, path).reduce((result, { key }) => setFormState(result, key, patch), data)
+}
+
+/**
+ * Restore a form's data to its initial snapshot and clear its flags.
+ */
+export function resetForm(data: DeclData, formKey: string, declNodes: Map<string, DeclNode>): DeclData {
+  const dataPath = declNodes.get(formKey)?.props?.dataBind
+  const state = getFormState(data, formKey)
+  const restored = typeof dataPath === 'string' && state.initial !== undefined
+    ? setDataPath(data, dataPath, state.initial)
+    : data
+  return setFormState(restored, formKey, { ...EMPTY_FORM_STATE, initial: state.initial })
+}
+
+/**
+ * True if actionConfig (or any step of an action sequence) validates a subtree (e.g. submit) whose form
+ * is currently submitting. Used to disable submit buttons while the action runs.
+ */
+export function isFormActionPending(actionConfig: unknown, data: DeclData, declNodes: Map<string, DeclNode>): boolean {
+  if (Array.isArray(actionConfig)) return actionConfig.some((step) => isFormActionPending(step, data, declNodes))
+  if (actionConfig == null || typeof actionConfig !== 'object') return false
+  const { name, params } = actionConfig as { name?: unknown; params?: Record<string, unknown> }
+  const validates = typeof name === 'string' ? getActionDefinition(name)?.validates : undefined
+  if (validates === undefined) return false
+  const reference = params?.[validates]
+  const match = typeof reference === 'string' ? /^\{\s*([\w$.]+)\s*\}$/.exec(reference) : null
+  return findForms(declNodes, match ? match[1] : '').some(({ key }) => getFormState(data, key).submitting)
+}
@@ -1,13 +1,27 @@
 /**
  * DECL Code Generator Service
  * 
- * This service generates flattened JSON structure from natural language prompts using OpenAI.
+ * This service generates flattened JSON structure from natural language prompts using an LLM provider
+ * (OpenAI by default, see services/llm).
  * The output follows the DECL format as described in GENUI_DECL_PROPOSAL.md
  */
 
-import { callOpenAIStreaming } from '../openai'
-import type { DeclView, DeclData, DeclSpec, DeclUpdate, DeclGenerateContext } from './types'
-import { deepMergeData, tryParseJsonFromText } from './utils'
+import { getDefaultProvider, type LLMMessage, type LLMProvider } from '../llm'
+import type {
+  DeclNode,
+  DeclView,
+  DeclData,
+  DeclComputed,
+  DeclPersist,
+  DeclSpec,
+  DeclUpdate,
+  DeclUpdateCallback,
+  DeclGenerateContext,
+  DeclDiagnostic
+} from './types'
+import { deepMergeData, unsetDataPaths, spliceDataItems, tryParseJsonFromText } from './utils'
+import { validateDeclSpec } from './validator'
+import { IncrementalJsonArrayParser } from './streamParser'
 
 // ============================================================================
 // Stream Aggregation
@@ -47,12 +61,88 @@ function applyViewChunk(
   return [...kept, ...viewPatch]
 }
 
+/**
+ * Apply a single remove update to the current view.
+ * Drops the nodes with the given keys and strips those keys from every remaining node's child references
+ * (top-level children and any string-array prop such as Card content/footer).
+ */
+function applyRemoveChunk(
+  current: DeclView,
+  update: { remove: string[] }
+): DeclView {
+  const keys = update?.remove
+  if (!Array.isArray(keys) || keys.length === 0) return current
+  const removed = new Set(keys.map(String))
+  const stripKeys = (value: unknown) =>
+    Array.isArray(value) && value.every((v) => typeof v === 'string')
+      ? value.filter((v) => !removed.has(v))
+      : value
+
+  return current
+    .filter((el) => !removed.has(el.key != null ? String(el.key) : ''))
+    .map((el) => {
+      const props = el.props
+        ? Object.fromEntries(Object.entries(el.props).map(([name, value]) => [name, stripKeys(value)]))
+        : el.props
+      return {
+        ...el,
+        ...(props && { props }),
+        ...(el.children && { children: stripKeys(el.children) as string[] })
+      }
+    })
+}
+
+/**
+ * Apply a single move update to the current view.
+ * Detaches the node from every current parent (same child references as remove) and inserts it
+ * into the new parent's children at index (appended when index is omitted or out of range).
+ * The parent's top-level children are used, or props.children when that is where the node keeps them.
+ */
+function applyMoveChunk(
+  current: DeclView,
+  update: { move: { key: string; parent: string; index?: number } }
+): DeclView {
+  const move = update?.move
+  if (move == null || typeof move !== 'object' || move.key == null || move.parent == null) return current
+  const key = String(move.key)
+  const parentKey = String(move.parent)
+  if (key === parentKey || !current.some((el) => String(el.key) === key) || !current.some((el) => String(el.key) === parentKey)) {
+    return current
+  }
+
+  const detach = (value: unknown) =>
+    Array.isArray(value) && value.every((v) => typeof v === 'string')
+      ? value.filter((v) => v !== key)
+      : value
+  const insert = (keys: string[]) => {
+    const index = typeof move.index === 'number' && move.index >= 0 && move.index <= keys.length ? move.index : keys.length
+    return [...keys.slice(0, index), key, ...keys.slice(index)]
+  }
+
+  return current.map((el) => {
+    const props = el.props
+      ? Object.fromEntries(Object.entries(el.props).map(([name, value]) => [name, detach(value)]))
+      : el.props
+    const children = el.children ? detach(el.children) as string[] : el.children
+    if (String(el.key) !== parentKey) {
+      return { ...el, ...(props && { props }), ...(children && { children }) }
+    }
+    if (!children && props && Array.isArray(props.children)) {
+      return { ...el, props: { ...props, children: insert(props.children) } }
+    }
+    return { ...el, ...(props && { props }), children: insert(children ?? []) }
+  })
+}
+
 /**
  * Aggregate an array of stream updates into a single DeclSpec.
+ * Updates are applied on top of base (empty spec by default), e.g. repair chunks on top of a generated spec.
  */
-function aggregateDeclUpdates(updates: DeclUpdate[]): DeclSpec {
-  let view: DeclView = []
-  let data: DeclData = {}
+function aggregateDeclUpdates(updates: DeclUpdate[], base: DeclSpec = { view: [], data: {} }): DeclSpec {
+  let view: DeclView = base.view
+  let data: DeclData = base.data
+  let computed: DeclComputed | undefined = base.computed
+  let persist: DeclPersist | undefined = base.persist
 
   for (const update of updates) {
     if (update && typeof update === 'object' && 'view' in update) {
@@ -61,51 +151,110 @@ function aggregateDeclUpdates(updates: DeclUpdate[]): DeclSpec {
     }
     if (update && typeof update === 'object' && 'data' in update) {
       data = applyDataChunk(data, update as { data: DeclData })
+      continue
+    }
+    if (update && typeof update === 'object' && 'remove' in update) {
+      view = applyRemoveChunk(view, update as { remove: string[] })
+      continue
+    }
+    if (update && typeof update === 'object' && 'unset' in update) {
+      const paths = (update as { unset: string[] }).unset
+      if (Array.isArray(paths)) {
+        data = unsetDataPaths(data, paths)
+        // Unsetting a computed path drops its expression too
+        if (computed) {
+          computed = Object.fromEntries(Object.entries(computed).filter(([path]) => !paths.includes(path)))
+        }
+      }
+      continue
+    }
+    if (update && typeof update === 'object' && 'move' in update) {
+      view = applyMoveChunk(view, update as { move: { key: string; parent: string; index?: number } })
+      continue
+    }
+    if (update && typeof update === 'object' && 'push' in update) {
+      const push = (update as { push: { path: string; items: unknown[] } }).push
+      if (push && typeof push.path === 'string' && Array.isArray(push.items)) {
+        data = spliceDataItems(data, push.path, Infinity, 0, push.items)
+      }
+      continue
+    }
+    if (update && typeof update === 'object' && 'splice' in update) {
+      const splice = (update as { splice: { path: string; index: number; deleteCount?: number; items?: unknown[] } }).splice
+      if (splice && typeof splice.path === 'string' && typeof splice.index === 'number') {
+        data = spliceDataItems(data, splice.path, splice.index, splice.deleteCount ?? 0, Array.isArray(splice.items) ? splice.items : [])
+      }
+      continue
+    }
+    if (update && typeof update === 'object' && 'computed' in update) {
+      const entries = (update as { computed: DeclComputed }).computed
+      if (entries != null && typeof entries === 'object' && !Array.isArray(entries)) {
+        computed = { ...computed, ...entries }
+      }
+      continue
+    }
+    if (update && typeof update === 'object' && 'persist' in update) {
+      const next = (update as { persist: DeclPersist }).persist
+      if (next && typeof next.key === 'string' && Array.isArray(next.paths)) {
+        persist = { key: next.key, paths: next.paths.filter((path) => typeof path === 'string') }
+      }
     }
   }
 
-  return { view, data }
+  return {
+    view,
+    data,
+    ...(computed && Object.keys(computed).length > 0 && { computed }),
+    ...(persist && { persist })
+  }
 }
 
 // ============================================================================
 // LLM Generation
 // ============================================================================
 
+/**
+ * Chunk kinds accepted in the stream, in the order they are documented to the model.
+ */
+const DECL_UPDATE_KINDS = ['view', 'data', 'remove', 'unset', 'move', 'push', 'splice', 'computed', 'persist'] as const
+
+/**
+ * Prompt section describing every chunk kind (shared by generate and refine).
+ */
+const CHUNK_KINDS_PROMPT = `CHUNK KINDS (each chunk has exactly one of these keys; chunks are applied in order):
+- { "view": [...] } adds nodes, or replaces the node with the same key (re-emit the whole node).
+- { "data": {...} } deep-merges into data (objects merged leaf by leaf, arrays replaced).
+- { "remove": ["nodeKey", ...] } deletes nodes by key and drops them from every parent's children.
+- { "unset": ["path.to.field", ...] } deletes data keys by dot-separated path (array indexes allowed, e.g. "items.2").
+- { "move": { "key": "nodeKey", "parent": "parentKey", "index": 0 } } moves a node under another parent at a child index (omit index to append).
+- { "push": { "path": "items", "items": [...] } } appends items to the data array at path (created if missing).
+- { "splice": { "path": "items", "index": 1, "deleteCount": 1, "items": [...] } } removes and/or inserts data array items at index.
+- { "computed": { "order.total": "{order.qty * order.price}" } } derives a read-only store value from an expression; recomputed whenever its inputs change.
+- { "persist": { "key": "todo-app", "paths": ["todos", "settings.theme"] } } keeps these store paths across page reloads (replaces any earlier persist chunk).`
+
 /**
  * Convert parsed JSON array to DeclUpdate[].
- * Only accepts arrays; filters to valid update objects (with view or data key).
+ * Only accepts arrays; filters to valid update objects (with one of the DECL_UPDATE_KINDS keys).
  * Returns empty array if input is null or not an array.
  */
 function toDeclUpdates(parsed: unknown): DeclUpdate[] {
   if (!Array.isArray(parsed)) return []
   return parsed.filter(
     (item): item is DeclUpdate =>
-      item != null && typeof item === 'object' && ('view' in item || 'data' in item)
+      item != null &&
+      typeof item === 'object' &&
+      DECL_UPDATE_KINDS.some((kind) => kind in item)
   )
 }
 
+
 /**
- * Generate flattened JSON structure from a natural language prompt
- * 
- * @param userPrompt - Natural language description of the UI to generate
- * @param context - Context with componentDefinitions, actionDefinitions (caller provides via getAllComponentDefinitions(true), getAllActionDefinitions(true)), and optional onUpdate for streaming
- * @returns Promise that resolves to the aggregated { view, data } response
- * 
- * @example
- * ```ts
- * const spec = await generate('Create a contact form', {
- *   componentDefinitions: getAllComponentDefinitions(true),
- *   actionDefinitions: getAllActionDefinitions(true),
- *   onUpdate: (streamingSpec) => { ... }
- * })
- * ```
+ * Build the system prompt listing the available components and actions.
  */
-export async function generate(
-  userPrompt: string,
-  context: DeclGenerateContext
-): Promise<DeclSpec> {
-  const { componentDefinitions: componentDefs, actionDefinitions: actionDefs, onUpdate } = context
-
+function buildSystemPrompt(
+  componentDefs: DeclGenerateContext['componentDefinitions'],
+  actionDefs: DeclGenerateContext['actionDefinitions']
+): string {
   const componentContext = componentDefs.length === 0
     ? 'No components are available.'
     : `Available COMPONENTS (UI building blocks):
@@ -118,10 +267,10 @@ ${JSON.stringify(componentDefs, null, 2)}`
 
 ${JSON.stringify(actionDefs, null, 2)}`
 
-  const systemPrompt = `You are a UI generation assistant. Given a user request, choose components and actions, compose a flattened tree (view + data), and match each component's JSON Schema.
+  return `You are a UI generation assistant. Given a user request, choose components and actions, compose a flattened tree (view + data), and match each component's JSON Schema.
 
 CHUNK ORDER (MANDATORY — SMALL DATA CHUNKS, INTERLEAVED WITH VIEWS):
-The output is a JSON array. Each item is exactly one chunk: either { "view": [...] } or { "data": {...} }.
+The output is a JSON array. Each item is exactly one chunk with exactly one key from CHUNK KINDS (normally { "view": [...] } or { "data": {...} }).
 - Split data into SMALL chunks (one or two fields per chunk). Do NOT emit one big data chunk with all fields.
 - For each field that needs data: emit data chunk (just that field) → then the view chunk for that field.
 - Pattern: data(field1) → view(field1) → data(field2) → view(field2) → ...
@@ -130,8 +279,11 @@ The output is a JSON array. Each item is exactly one chunk: either { "view": [..
 - RIGHT: interleaved small data chunks and views: data, view, data, view, ...
 
 OUTPUT FORMAT:
-- One chunk = one array element with exactly one key "view" OR "data". Client appends view arrays and deep-merges data (leaf-level merge).
+- One chunk = one array element with exactly one key from CHUNK KINDS (normally "view" or "data"). Client appends view arrays and deep-merges data (leaf-level merge).
 - Keep data chunks small (1-2 fields each) so the UI renders incrementally as each data+view pair arrives.
+- Build the UI with "view" and "data" chunks. Use the other chunk kinds below only to restructure what was already emitted (e.g. remove or move a node, unset a data key, append to a list).
+
+${CHUNK_KINDS_PROMPT}
 
 CORRECT EXAMPLE (small data chunks interleaved with views):
 \`\`\`json
@@ -149,21 +301,36 @@ CORRECT EXAMPLE (small data chunks interleaved with views):
 (Each field's data is a separate chunk right before that field's view. The client deep-merges, so profile.firstName and profile.lastName merge into one profile object. Never emit one big data chunk with all fields at once.)
 
 DATA STORE AND VARIABLES:
-- Store starts empty. Use "{path}" to read a value (e.g. "{userName}", "{position.x}"). The prop value must be exactly that string—do not embed {path} inside other text; for composed text, put the full string in the store and reference it.
-- Props and action params can use "{path}".
+- Store starts empty. Use "{path}" to read a value (e.g. "{userName}", "{position.x}"). A prop that is exactly "{...}" gets the raw value (number, boolean, object).
+- Expressions inside braces: comparisons (== != < <= > >=), && || ! ??, arithmetic (+ - * / %), ternary (a ? b : c), 'quoted' strings, and functions upper(x), lower(x), number(x, digits?), date(x, 'short'|'medium'|'long'|'full'|'iso').
+  Examples: "{items.length > 0}" for ExistWhen.condition, "{qty * price}", "{age >= 18 ? 'Adult' : 'Minor'}".
+- Text can embed expressions: "Hello {user.firstName}!" or "Total: {number(total, 2)}".
+- Props and action params can use expressions.
+- For totals, "is valid" flags, full names etc. use a computed chunk instead of storing them: { "computed": { "user.fullName": "{user.first.value} {user.last.value}" } }, then read "{user.fullName}". Never write to a computed path.
+- Only when the user asks for state that survives a reload (saved todos, preferences), emit a persist chunk naming those store paths with a key unique to the app. Do not persist form drafts or loading/error flags unless asked.
 
 DATA BINDING (dataBind):
 - Use "dataBind": "path" (dot-separated) for inputs so value and onChange are wired automatically.
 - TextBox: path can be a scalar (e.g. user.name: "") or a Property object.
 - Field: path must be a Property object: { type: "text"|"number"|..., name: "Label", value: ""|0, placeholder?: "hint" }. name is the label; value is the current value.
   Example for Field: "dataBind": "profile.firstName" with data "profile": { "firstName": { "type": "text", "name": "First Name", "value": "", "placeholder": "First Name" } }.
+- Validation: add "rules" to a Property instead of custom checks: { "required": true, "pattern": "email", "minLength": 8, "min": 0, "max": 120, "matches": "signup.password", "message": "Custom error" }. pattern is a regex or "email" | "url". Errors show under the Field as the user types, and submit is blocked until every Property under its "data" passes.
+- Form state: give a Form a "dataBind" (the subtree its Fields edit, e.g. "profile") and read its state at "$form.<form key>": dirty, touched, submitting, submitted, error (e.g. "{$form.profileForm.dirty ? 'Unsaved changes' : ''}"). Submit buttons disable themselves while submitting. Reset with { "name": "resetForm", "params": { "form": "profileForm" } }.
+- Undo/redo: { "name": "undo" } and { "name": "redo" } revert or reapply store changes (one step per action run or edited field). Disable the buttons with "disabled": "{!$history.canUndo}" / "{!$history.canRedo}".
+- Action flows: onClick can be an array of actions run in order, stopping at the first failure. Each action can have "when" (skip unless true), "onSuccess" and "onError" (an action or array). Later params read the latest result as "{result.field}"; onError reads "{error}". Example (save, then go back):
+  "onClick": [ { "name": "httpPost", "params": { "url": "/api/items", "body": "{item}" }, "onError": { "name": "toast", "params": { "message": "{error}", "type": "error" } } }, { "name": "toast", "params": { "message": "Saved", "type": "success" } }, { "name": "navigate", "params": { "url": "/items/{result.id}" } } ]
+
+LISTS (Repeat):
+- To render one node per item of a store array, use a Repeat with "dataBind": "contacts" and "template": "contactRow". Do not spell out one node per item.
+- Inside the template and its descendants, "{item.name}" reads a field of the current item, "{index}" is the row index, and a Field "dataBind": "item.email" binds to that item's Property.
+  Example: data "contacts": [ { "name": "Ann", "email": { "type": "email", "name": "Email", "value": "" } } ] with a Repeat over "contacts" whose template is a Field with "dataBind": "item.email".
 
 ACTION RETURNS:
 - If an action has "returns" in its definition, add "returns": { "attr": "storePath" } to the action config to write return values into the store.
 
 RULES:
 1. Chunk order: for each field that needs data, emit a small data chunk (just that field) then the view chunk for that field. Keep data chunks small (1-2 fields). Never emit one big data chunk with all fields at once.
-2. Each chunk = one array element, one key "view" or "data". Client appends view and deep-merges data.
+2. Each chunk = one array element with exactly one key from CHUNK KINDS. Client appends view and deep-merges data.
 3. View: array of DECL elements with a unique "key" across the entire view. "type" (from available components), "props", optional "children" (array of keys).
 4. Props must match each component's params schema; only include params that exist.
 5. Prefer components from the list over raw DOM.
@@ -175,45 +342,240 @@ ${componentContext}
 ${actionContext}
 
 Generate only valid JSON, no explanations or markdown outside code blocks.`
+}
+
+/**
+ * Build the system prompt section for refining an existing spec.
+ */
+function buildRefinePrompt(): string {
+  return `REFINEMENT MODE (overrides CHUNK ORDER above):
+You are editing an existing UI. The user message contains the CURRENT SPEC (view + data, plus computed and persist when set) and an INSTRUCTION.
+Computed paths are read-only: change them with "computed" chunks, never with "data" chunks, and do not re-emit unchanged ones.
+Output ONLY patch chunks (any of the CHUNK KINDS), as a JSON array, that turn the current spec into what the instruction asks for. Chunks are applied in order on top of the current spec.
+Prefer remove/unset/move/push/splice over re-emitting whole nodes or data. Do not re-emit unchanged nodes or data. Keep existing keys stable. If nothing needs to change, output [].`
+}
+
+/**
+ * Build the follow-up user turn asking the model to fix validation errors.
+ */
+function buildRepairPrompt(diagnostics: DeclDiagnostic[]): string {
+  const issues = diagnostics
+    .map((d) => `- [${d.code}]${d.nodeKey ? ` node "${d.nodeKey}"` : ''}${d.prop ? ` prop "${d.prop}"` : ''}: ${d.message}`)
+    .join('\n')
 
-  // Accumulate streaming text and parse incrementally; cache last aggregated spec to avoid re-aggregating when count unchanged
-  let streamedText = ''
-  let latestUpdateContext: { updateCount: number; spec: DeclSpec } = {
-    updateCount: 0,
-    spec: { view: [], data: {} }
+  return `The generated chunks failed validation:
+
+${issues}
+
+Return ONLY the corrective chunks, as a JSON array in the same chunk format. They are applied on top of what you already generated:
+- To fix a node, re-emit the whole node with the same "key" (it replaces the old node).
+- To fix a dangling child key, emit the missing node, or re-emit the parent with corrected children.
+- To fix data (e.g. a dataBind target that is not a Property), emit a small data chunk with just the corrected fields.
+- Only use component types, props and actions from the lists above.
+Do not repeat chunks that are already valid.`
+}
+
+/**
+ * Turn the still-streaming chunk into a preview update, or null if there is nothing to show yet.
+ * View chunks keep their complete nodes plus the last node flagged partial: true, once its key and
+ * type are complete (neither is the node's last member, which may still be typing). Other chunk kinds
+ * are not previewed: components read data (e.g. Field's Property objects) and expect it complete.
+ */
+function toPartialUpdate(value: unknown): DeclUpdate | null {
+  if (value == null || typeof value !== 'object' || Array.isArray(value)) return null
+
+  if ('view' in value && Array.isArray(value.view)) {
+    const nodes = value.view as DeclNode[]
+    const last = nodes[nodes.length - 1]
+    const members = last != null && typeof last === 'object' ? Object.keys(last) : []
+    const lastMember = members[members.length - 1]
+    const hasIdentity =
+      typeof last?.key === 'string' && lastMember !== 'key' &&
+      typeof last?.type === 'string' && lastMember !== 'type'
+    const view = hasIdentity ? [...nodes.slice(0, -1), { ...last, partial: true }] : nodes.slice(0, -1)
+    return view.length > 0 ? { view } : null
   }
 
-  const handleStreamChunk = onUpdate
-    ? ({ type, text }: { type: 'replace' | 'append'; text: string }) => {
-        if (type === 'replace') {
-          streamedText = text
-        } else {
-          streamedText += text
-        }
-        const updates = toDeclUpdates(tryParseJsonFromText(streamedText).value)
-        if (updates.length > latestUpdateContext.updateCount) {
-          latestUpdateContext = {
-            updateCount: updates.length,
-            spec: aggregateDeclUpdates(updates)
-          }
-          onUpdate(latestUpdateContext.spec)
-        }
-      }
-    : undefined
+  return null
+}
+
+/**
+ * Stream one model turn and aggregate its chunks on top of base.
+ * Calls onUpdate with the merged spec each time a new chunk completes, and with a preview including
+ * the partially streamed chunk (see toPartialUpdate) as its text arrives.
+ *
+ * @returns The raw response text, the parsed updates, and the merged spec (complete chunks only)
+ */
+async function streamDeclUpdates(
+  provider: LLMProvider,
+  messages: LLMMessage[],
+  base: DeclSpec,
+  onUpdate?: DeclUpdateCallback
+): Promise<{ response: string; updates: DeclUpdate[]; spec: DeclSpec }> {
+  // Parse the stream incrementally: each completed chunk is emitted once and applied on top of the running spec
+  const parser = new IncrementalJsonArrayParser()
+  let updates: DeclUpdate[] = []
+  let spec = base
+  let lastPreview = ''
+
+  const handleStreamChunk = ({ type, text }: { type: 'replace' | 'append'; text: string }) => {
+    if (type === 'replace') {
+      parser.reset()
+      updates = []
+      spec = base
+    }
+    const completed = toDeclUpdates(parser.append(text))
+    if (completed.length > 0) {
+      updates = [...updates, ...completed]
+      spec = aggregateDeclUpdates(completed, spec)
+    }
+    if (!onUpdate) return
 
-  // Call OpenAI API with streaming
-  const response = await callOpenAIStreaming(userPrompt, systemPrompt, handleStreamChunk)
+    // Only notify when the preview changed (most deltas inside a chunk do not change its parsed value)
+    const partial = toPartialUpdate(parser.partial())
+    const preview = partial ? JSON.stringify(partial) : ''
+    if (completed.length === 0 && preview === lastPreview) return
+    lastPreview = preview
+    onUpdate(partial ? aggregateDeclUpdates([partial], spec) : spec)
+  }
 
-  // Extract and parse JSON from response (expected: array of DeclUpdates)
-  const updates = toDeclUpdates(tryParseJsonFromText(response).value)
+  // Call the LLM provider with streaming
+  const response = await provider.stream({ messages }, handleStreamChunk)
 
+  // Providers that return the text without streaming deltas: parse the full response once
   if (updates.length === 0) {
+    updates = toDeclUpdates(tryParseJsonFromText(response).value)
+    spec = aggregateDeclUpdates(updates, base)
+  }
+
+  return { response, updates, spec }
+}
+
+/**
+ * Generate flattened JSON structure from a natural language prompt
+ * 
+ * When maxRepairAttempts > 0, the aggregated spec is validated with validateDeclSpec. If it has errors,
+ * the diagnostics are sent back as a follow-up turn and the model's corrective chunks are merged into
+ * the spec, until it validates or the attempts run out. The last spec is returned either way.
+ * 
+ * @param userPrompt - Natural language description of the UI to generate
+ * @param context - Context with componentDefinitions, actionDefinitions (caller provides via getAllComponentDefinitions(true), getAllActionDefinitions(true)), optional onUpdate for streaming, optional provider and optional maxRepairAttempts
+ * @returns Promise that resolves to the aggregated { view, data } response
+ * 
+ * @example
+ * ```ts
+ * const spec = await generate('Create a contact form', {
+ *   componentDefinitions: getAllComponentDefinitions(true),
+ *   actionDefinitions: getAllActionDefinitions(true),
+ *   maxRepairAttempts: 2,
+ *   onUpdate: (streamingSpec) => { ... }
+ * })
+ * ```
+ */
+export async function generate(
+  userPrompt: string,
+  context: DeclGenerateContext
+): Promise<DeclSpec> {
+  const { componentDefinitions: componentDefs, actionDefinitions: actionDefs, onUpdate } = context
+  const provider = context.provider ?? getDefaultProvider()
+
+  const messages: LLMMessage[] = [
+    { role: 'system', content: buildSystemPrompt(componentDefs, actionDefs) },
+    { role: 'user', content: userPrompt },
+  ]
+
+  const initial = await streamDeclUpdates(provider, messages, { view: [], data: {} }, onUpdate)
+  if (initial.updates.length === 0) {
     throw new Error('Invalid response: expected a JSON array of updates')
   }
 
-  // Reuse cached spec if we already aggregated this many updates during streaming
-  if (updates.length === latestUpdateContext.updateCount) {
-    return latestUpdateContext.spec
+  return repairDeclSpec(initial.spec, initial.response, messages, provider, context)
+}
+
+/**
+ * Refine an existing DeclSpec with a follow-up instruction
+ * 
+ * Sends the current view/data plus the instruction and streams back only patch chunks
+ * (view upserts, data merges, node removals and data unsets), applied on top of spec.
+ * Honors maxRepairAttempts the same way generate() does.
+ * 
+ * @param spec - The current spec to edit (not modified)
+ * @param instruction - Natural language description of the change
+ * @param context - Same context as generate(); onUpdate receives the patched spec while streaming
+ * @returns Promise that resolves to the patched spec (spec itself when the model returns no patches)
+ * 
+ * @example
+ * ```ts
+ * const next = await refine(spec, 'Remove the phone field and make the title "Sign up"', {
+ *   componentDefinitions: getAllComponentDefinitions(true),
+ *   actionDefinitions: getAllActionDefinitions(true)
+ * })
+ * ```
+ */
+export async function refine(
+  spec: DeclSpec,
+  instruction: string,
+  context: DeclGenerateContext
+): Promise<DeclSpec> {
+  const { componentDefinitions: componentDefs, actionDefinitions: actionDefs, onUpdate } = context
+  const provider = context.provider ?? getDefaultProvider()
+
+  const messages: LLMMessage[] = [
+    { role: 'system', content: `${buildSystemPrompt(componentDefs, actionDefs)}\n\n${buildRefinePrompt()}` },
+    {
+      role: 'user',
+      content: `CURRENT SPEC:
+\`\`\`json
+${JSON.stringify({
+  view: spec.view,
+  data: spec.data,
+  ...(spec.computed && { computed: spec.computed }),
+  ...(spec.persist && { persist: spec.persist })
+}, null, 2)}
+\`\`\`
+
+INSTRUCTION: ${instruction}`
+    },
+  ]
+
+  const patch = await streamDeclUpdates(provider, messages, spec, onUpdate)
+  if (patch.updates.length === 0) {
+    return spec
+  }
+
+  return repairDeclSpec(patch.spec, patch.response, messages, provider, context)
+}
+
+/**
+ * Run the self-repair loop: validate spec and, while it has errors and attempts remain,
+ * send the diagnostics back as a follow-up turn and merge the corrective chunks.
+ * Appends the repair turns to messages.
+ */
+async function repairDeclSpec(
+  spec: DeclSpec,
+  lastResponse: string,
+  messages: LLMMessage[],
+  provider: LLMProvider,
+  context: DeclGenerateContext
+): Promise<DeclSpec> {
+  const { onUpdate, onRepair } = context
+  const maxRepairAttempts = context.maxRepairAttempts ?? 0
+
+  for (let attempt = 1; attempt <= maxRepairAttempts; attempt++) {
+    const errors = validateDeclSpec(spec, context).filter((d) => d.severity === 'error')
+    if (errors.length === 0) break
+
+    onRepair?.(attempt, errors)
+    messages.push(
+      { role: 'assistant', content: lastResponse },
+      { role: 'user', content: buildRepairPrompt(errors) }
+    )
+
+    const repair = await streamDeclUpdates(provider, messages, spec, onUpdate)
+    if (repair.updates.length === 0) break
+    spec = repair.spec
+    lastResponse = repair.response
   }
-  return aggregateDeclUpdates(updates)
+
+  return spec
 }
@@ -0,0 +1,93 @@
+/**
+ * DECL Store History
+ *
+ * Undo/redo for the runtime data store, as a reducer the renderer keeps in React state.
+ * Every write is an updater (prev → next) that may carry a transaction id: consecutive writes with the
+ * same id form one history entry, so one undo reverts them together. Actions run as one transaction
+ * (all writes of a flow, including async steps), and data binds use one per path, so typing into a
+ * field is undone as a whole rather than per keystroke.
+ *
+ * The view reads "{$history.canUndo}" / "{$history.canRedo}" (see withHistoryState).
+ */
+
+import type { DeclData } from './types'
+
+/** Maximum number of undo entries kept */
+export const HISTORY_LIMIT = 100
+
+/** Store key under which the view can read canUndo/canRedo */
+export const HISTORY_STATE_ROOT = '$history'
+
+export interface DeclStoreHistory {
+  past: DeclData[]
+  present: DeclData
+  future: DeclData[]
+  /** Transaction of the latest write; a write with the same id extends the current entry */
+  transaction?: string
+}
+
+export interface DeclStoreWriteOptions {
+  /** Writes sharing an id (consecutively) are undone together */
+  transaction?: string
+}
+
+export type DeclStoreHistoryAction =
+  | { type: 'reset'; data: DeclData }
+  | { type: 'write'; updater: (prev: DeclData) => DeclData; transaction?: string }
+  | { type: 'undo' }
+  | { type: 'redo' }
+
+export function createStoreHistory(data: DeclData): DeclStoreHistory {
+  return { past: [], present: data, future: [] }
+}
+
+/**
+ * Apply a history action.
+ *
+ * - reset: start over from data (e.g. a new spec), dropping all history
+ * - write: apply the updater; pushes an undo entry unless it continues the current transaction
+ * - undo / redo: move between entries (no-op at either end)
+ */
+export function storeHistoryReducer(history: DeclStoreHistory, action: DeclStoreHistoryAction): DeclStoreHistory {
+  switch (action.type) {
+    case 'reset':
+      return createStoreHistory(action.data)
+    case 'write': {
+      const next = action.updater(history.present)
+      if (next === history.present) return history
+      const continues = action.transaction !== undefined && action.transaction === history.transaction
+      return {
+        past: continues ? history.past : [...history.past, history.present].slice(-HISTORY_LIMIT),
+        present: next,
+        future: [],
+        transaction: action.transaction
+      }
+    }
+    case 'undo': {
+      if (history.past.length === 0) return history
+      return {
+        past: history.past.slice(0, -1),
+        present: history.past[history.past.length - 1],
+        future: [history.present, ...history.future]
+      }
+    }
+    case 'redo': {
+      if (history.future.length === 0) return history
+      return {
+        past: [...history.past, history.present],
+        present: history.future[0],
+        future: history.future.slice(1)
+      }
+    }
+  }
+}
+
+/**
+ * Store as seen by the view: data plus $history { canUndo, canRedo } (read-only).
+ */
+export function withHistoryState(data: DeclData, history: DeclStoreHistory): DeclData {
+  return {
+    ...data,
+    [HISTORY_STATE_ROOT]: { canUndo: history.past.length > 0, canRedo: history.future.length > 0 }
+  }
+}
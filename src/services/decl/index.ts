@@ -1,15 +1,54 @@
 /**
  * DECL service: code generation and component/utils for DECL format.
- * Re-exports all public API from types, declCodeGenerator and declComponentUtils.
+ * Re-exports all public API from types, declCodeGenerator, validator, expression, computed, thumbnail, rules, forms, history, streamParser and declComponentUtils.
  * loadAllComponents is in components/decl; loadAllActions is in services/actions.
  */
 
-export { type DeclNode, type DeclData, type DeclSpec, type DeclGenerateContext } from './types'
+export {
+  type DeclNode,
+  type DeclData,
+  type DeclSpec,
+  type DeclComputed,
+  type DeclPersist,
+  type DeclActionStep,
+  type DeclActionFlow,
+  type DeclGenerateContext,
+  type DeclScope,
+  type DeclDiagnostic,
+  type DeclDiagnosticCode,
+  type DeclValidationContext
+} from './types'
 export { type RenderContext } from '../../components/decl'
-export { generate } from './generator'
+export { generate, refine } from './generator'
+export { checkDeclSpecShape, validateDeclSpec } from './validator'
+export { applyComputed } from './computed'
+export { createSpecThumbnail } from './thumbnail'
+export {
+  type DeclStoreHistory,
+  type DeclStoreHistoryAction,
+  type DeclStoreWriteOptions,
+  HISTORY_STATE_ROOT,
+  createStoreHistory,
+  storeHistoryReducer,
+  withHistoryState
+} from './history'
+export { type PropertyRules, checkPropertyRules, validateDataSubtree } from './rules'
+export { type DeclFormState, FORM_STATE_ROOT, getFormState, isFormActionPending, resetForm } from './forms'
+export {
+  type ExpressionNode,
+  type TemplateSegment,
+  type PathLookup,
+  parseExpression,
+  evaluateExpression,
+  parseTemplate,
+  resolveTemplate
+} from './expression'
+export { IncrementalJsonArrayParser } from './streamParser'
 export {
   tryParseJsonFromText,
   createDataBind,
+  createItemScope,
+  resolveScopedPath,
   createActionBind,
   renderDeclNodes,
   renderDeclNode
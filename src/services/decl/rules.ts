@@ -0,0 +1,192 @@
+/**
+ * DECL Property Validation Rules
+ *
+ * A Property in the store (the object a Field binds to) can declare `rules`:
+ *
+ *   { "type": "password", "name": "Confirm", "value": "",
+ *     "rules": { "required": true, "matches": "signup.password", "message": "Passwords must match" } }
+ *
+ * Rules are checked whenever createDataBind writes into the Property, and for a whole data subtree
+ * before an action that validates its params (e.g. submit). Results are written back onto the
+ * Property as `valid` and `error`, which Field displays.
+ */
+
+import type { DeclData } from './types'
+import { getNestedValue, setDataPath } from './utils'
+
+export type PropertyRuleName = 'required' | 'pattern' | 'min' | 'max' | 'minLength' | 'maxLength' | 'matches'
+
+export interface PropertyRules {
+  /** Value must be non-empty (checked: true for checkboxes) */
+  required?: boolean
+  /** Regular expression source the text must match, or a preset: "email" | "url" */
+  pattern?: string
+  /** Minimum / maximum numeric value */
+  min?: number
+  max?: number
+  /** Minimum / maximum text length */
+  minLength?: number
+  maxLength?: number
+  /** Store path of another Property whose value this one must equal (e.g. confirm password) */
+  matches?: string
+  /** Message shown for any failed rule (overrides the defaults) */
+  message?: string
+  /** Per-rule messages, taking precedence over message */
+  messages?: Partial<Record<PropertyRuleName, string>>
+}
+
+const PATTERN_PRESETS: Record<string, RegExp> = {
+  email: /^[^\s@]+@[^\s@]+\.[^\s@]+$/,
+  url: /^https?:\/\/[^\s/$.?#].[^\s]*$/i
+}
+
+function isEmpty(value: unknown): boolean {
+  return value == null || value === '' || value === false || (Array.isArray(value) && value.length === 0)
+}
+
+function toPattern(pattern: string): RegExp | null {
+  if (PATTERN_PRESETS[pattern]) return PATTERN_PRESETS[pattern]
+  try {
+    return new RegExp(pattern)
+  } catch {
+    return null
+  }
+}
+
+/**
+ * True if value looks like a Property with rules.
+ */
+function hasRules(value: unknown): value is { value?: unknown; name?: string; rules: PropertyRules } {
+  return (
+    value != null &&
+    typeof value === 'object' &&
+    !Array.isArray(value) &&
+    (value as { rules?: unknown }).rules != null &&
+    typeof (value as { rules?: unknown }).rules === 'object'
+  )
+}
+
+/**
+ * Check a Property's value against its rules.
+ *
+ * @param property - Property object ({ value, name, rules })
+ * @param data - Store, used to resolve `matches`
+ * @returns The error message of the first failed rule, or null when valid
+ */
+export function checkPropertyRules(
+  property: { value?: unknown; name?: string; rules?: PropertyRules },
+  data: DeclData
+): string | null {
+  const rules = property.rules
+  if (!rules) return null
+  const value = property.value
+  const label = property.name || 'This field'
+  const fail = (rule: PropertyRuleName, fallback: string) => rules.messages?.[rule] ?? rules.message ?? fallback
+
+  if (rules.required && isEmpty(value)) return fail('required', `${label} is required`)
+  // Other rules only apply once there is a value
+  if (isEmpty(value)) return null
+
+  const text = String(value)
+  if (typeof rules.pattern === 'string') {
+    const pattern = toPattern(rules.pattern)
+    if (pattern && !pattern.test(text)) {
+      return fail('pattern', rules.pattern in PATTERN_PRESETS ? `${label} must be a valid ${rules.pattern}` : `${label} has an invalid format`)
+    }
+  }
+  if (typeof rules.minLength === 'number' && text.length < rules.minLength) {
+    return fail('minLength', `${label} must be at least ${rules.minLength} characters`)
+  }
+  if (typeof rules.maxLength === 'number' && text.length > rules.maxLength) {
+    return fail('maxLength', `${label} must be at most ${rules.maxLength} characters`)
+  }
+  const num = typeof value === 'number' ? value : Number(value)
+  if (typeof rules.min === 'number' && (Number.isNaN(num) || num < rules.min)) {
+    return fail('min', `${label} must be at least ${rules.min}`)
+  }
+  if (typeof rules.max === 'number' && (Number.isNaN(num) || num > rules.max)) {
+    return fail('max', `${label} must be at most ${rules.max}`)
+  }
+  if (typeof rules.matches === 'string') {
+    const other = getNestedValue(data, rules.matches)
+    const otherValue = other != null && typeof other === 'object' && 'value' in other ? other.value : other
+    if (value !== otherValue) return fail('matches', `${label} does not match`)
+  }
+  return null
+}
+
+/**
+ * Visit every Property with rules under data (path "" = the whole store).
+ */
+function forEachRuledProperty(
+  value: unknown,
+  path: string,
+  visit: (path: string, property: { value?: unknown; name?: string; rules: PropertyRules }) => void
+): void {
+  if (hasRules(value)) {
+    visit(path, value)
+    return
+  }
+  if (value != null && typeof value === 'object') {
+    for (const [key, child] of Object.entries(value)) {
+      forEachRuledProperty(child, path ? `${path}.${key}` : key, visit)
+    }
+  }
+}
+
+/**
+ * Write the result of checkPropertyRules onto the Property at path (valid + error).
+ */
+function applyResult(data: DeclData, path: string, error: string | null): DeclData {
+  const current = getNestedValue(data, path)
+  if (current?.valid === !error && current?.error === (error ?? undefined)) return data
+  const next = { ...current, valid: !error }
+  if (error) next.error = error
+  else delete next.error
+  return path ? setDataPath(data, path, next) : next
+}
+
+/**
+ * Re-check rules after a write at writtenPath: the nearest enclosing Property with rules, plus any
+ * already-checked Property whose `matches` points at it (e.g. confirm password after password).
+ *
+ * @returns data with valid/error updated (data itself when nothing has rules)
+ */
+export function revalidateAfterWrite(data: DeclData, writtenPath: string): DeclData {
+  const parts = writtenPath.split('.')
+  let propertyPath: string | null = null
+  for (let length = parts.length; length > 0; length--) {
+    const path = parts.slice(0, length).join('.')
+    if (hasRules(getNestedValue(data, path))) {
+      propertyPath = path
+      break
+    }
+  }
+  if (propertyPath === null) return data
+
+  let result = applyResult(data, propertyPath, checkPropertyRules(getNestedValue(data, propertyPath), data))
+  forEachRuledProperty(result, '', (path, property) => {
+    const checked = (property as { valid?: boolean }).valid !== undefined
+    if (path !== propertyPath && checked && property.rules.matches === propertyPath) {
+      result = applyResult(result, path, checkPropertyRules(property, result))
+    }
+  })
+  return result
+}
+
+/**
+ * Check every Property with rules under the subtree at path (all of data when path is "").
+ *
+ * @returns valid - false if any rule failed; data - store with valid/error written onto each checked Property
+ */
+export function validateDataSubtree(data: DeclData, path: string): { valid: boolean; data: DeclData } {
+  let valid = true
+  let result = data
+  const subtree = path ? getNestedValue(data, path) : data
+  forEachRuledProperty(subtree, path, (propertyPath, property) => {
+    const error = checkPropertyRules(property, result)
+    if (error) valid = false
+    result = applyResult(result, propertyPath, error)
+  })
+  return { valid, data: result }
+}
@@ -0,0 +1,192 @@
+/**
+ * Incremental JSON array parser for streamed model output.
+ *
+ * tryParseJsonFromText re-scans the whole accumulated text on every delta, which is quadratic
+ * over a long stream. This parser keeps its scan position across appends and emits each completed
+ * top-level array element exactly once, so every character is scanned once and each element is
+ * JSON.parse'd once.
+ *
+ * Leading prose and a markdown code fence (```json) before the array are skipped; the array must
+ * open with an object, a nested array or ']'. Text after the closing bracket of the top-level array
+ * is ignored.
+ */
+export class IncrementalJsonArrayParser {
+  private buffer = ''
+  private position = 0
+  // -1 until the top-level '[' is found
+  private arrayStart = -1
+  private depth = 0
+  private inString = false
+  private escapeNext = false
+  // Start of the current depth-1 object/array element, -1 when between elements
+  private elementStart = -1
+  // Closing brackets for the containers open inside the current element, innermost last
+  private closers: string[] = []
+  // Start of the string being scanned (its opening quote)
+  private stringStart = -1
+  private done = false
+
+  /**
+   * Append streamed text and return the top-level array elements completed by it.
+   * Elements that fail to parse are skipped.
+   */
+  append(text: string): unknown[] {
+    this.buffer += text
+    if (this.done) return []
+    if (this.arrayStart === -1 && !this.findArrayStart()) return []
+
+    const completed: unknown[] = []
+    const buffer = this.buffer
+    for (let i = this.position; i < buffer.length; i++) {
+      const char = buffer[i]
+      if (this.escapeNext) {
+        this.escapeNext = false
+        continue
+      }
+      if (this.inString) {
+        if (char === '\\') this.escapeNext = true
+        else if (char === '"') this.inString = false
+        continue
+      }
+      if (char === '"') {
+        this.inString = true
+        this.stringStart = i
+        continue
+      }
+
+      if (char === '{' || char === '[') {
+        if (this.depth === 1) this.elementStart = i
+        this.depth++
+        this.closers.push(char === '{' ? '}' : ']')
+      } else if (char === '}' || char === ']') {
+        this.depth--
+        this.closers.pop()
+        if (this.depth === 1 && this.elementStart !== -1) {
+          try {
+            completed.push(JSON.parse(buffer.substring(this.elementStart, i + 1)))
+          } catch {
+            // Skip malformed element
+          }
+          this.elementStart = -1
+        } else if (this.depth <= 0) {
+          this.done = true
+          this.position = i + 1
+          return completed
+        }
+      }
+    }
+    this.position = buffer.length
+    return completed
+  }
+
+  /**
+   * Discard all state (e.g. when the stream restarts with a 'replace' update).
+   */
+  reset(): void {
+    this.buffer = ''
+    this.position = 0
+    this.arrayStart = -1
+    this.depth = 0
+    this.inString = false
+    this.escapeNext = false
+    this.elementStart = -1
+    this.closers = []
+    this.stringStart = -1
+    this.done = false
+  }
+
+  /**
+   * Best-effort value of the element still being streamed, or undefined if there is none yet.
+   *
+   * The open string is closed (so string values appear as they are typed), an object key that is
+   * still being typed or has no value yet is dropped, an incomplete literal (e.g. "tru") is dropped,
+   * and the open containers are closed. Only the last member of each open container can be
+   * incomplete; everything before it is exactly what the completed element will contain.
+   */
+  partial(): unknown {
+    if (this.done || this.elementStart === -1) return undefined
+
+    let text = this.buffer.substring(this.elementStart, this.position)
+    if (this.inString) {
+      const stringStart = this.stringStart - this.elementStart
+      const before = text.substring(0, stringStart).trimEnd()
+      const inObject = this.closers[this.closers.length - 1] === '}'
+      if (inObject && (before.endsWith('{') || before.endsWith(','))) {
+        // The open string is an object key
+        text = before
+      } else {
+        // Drop a dangling escape (trailing backslash or partial \uXXXX) so the closing quote is not escaped
+        if (this.escapeNext) text = text.substring(0, text.length - 1)
+        text = text.replace(/(^|[^\\])((?:\\\\)*)\\u[0-9a-fA-F]{0,3}$/, '$1$2') + '"'
+      }
+    }
+
+    text = text.trimEnd()
+    if (this.closers[this.closers.length - 1] === '}') {
+      // Drop a complete key that has no ':' yet ('{"a":1,"b"' -> '{"a":1,')
+      text = text.replace(/([{,])\s*"(?:[^"\\]|\\.)*"$/, '$1')
+    }
+    // Drop a key without a value ('"name":') and an incomplete literal after ':' or ','
+    text = text.replace(/"(?:[^"\\]|\\.)*"\s*:\s*$/, '').trimEnd()
+    if (/[-+.\deE]$|[a-z]$/.test(text)) {
+      const literal = text.match(/[-+.\w]+$/)?.[0] ?? ''
+      if (!/^(true|false|null|-?\d+(\.\d+)?([eE][+-]?\d+)?)$/.test(literal)) {
+        text = text.substring(0, text.length - literal.length).trimEnd()
+      }
+    }
+    text = text.replace(/,$/, '')
+    // Dropping a literal can expose a key without a value ('{"a":1,"b":tr' -> '{"a":1,"b":')
+    text = text.replace(/"(?:[^"\\]|\\.)*"\s*:\s*$/, '').replace(/,\s*$/, '')
+
+    try {
+      return JSON.parse(text + [...this.closers].reverse().join(''))
+    } catch {
+      return undefined
+    }
+  }
+
+  /**
+   * True once the top-level array has been closed.
+   */
+  get isComplete(): boolean {
+    return this.done
+  }
+
+  /**
+   * Locate the opening '[' of the top-level array, skipping a code fence line if one comes first.
+   * Returns false if more text is needed.
+   */
+  private findArrayStart(): boolean {
+    const buffer = this.buffer
+    let searchFrom = this.position
+    const fence = buffer.indexOf('```', searchFrom)
+    const bracket = buffer.indexOf('[', searchFrom)
+    if (fence !== -1 && (bracket === -1 || fence < bracket)) {
+      // Wait for the end of the fence line (e.g. "```json\n") before looking for the array
+      const lineEnd = buffer.indexOf('\n', fence)
+      if (lineEnd === -1) return false
+      searchFrom = lineEnd + 1
+    }
+
+    let start = buffer.indexOf('[', searchFrom)
+    while (start !== -1) {
+      // The array must open with an element or close immediately; skips prose like "[docs]"
+      const next = buffer.substring(start + 1).search(/\S/)
+      if (next === -1) {
+        this.position = start
+        return false
+      }
+      if ('{[]'.includes(buffer[start + 1 + next])) break
+      start = buffer.indexOf('[', start + 1)
+    }
+    if (start === -1) {
+      // Nothing before searchFrom can start the array; keep a partial fence ("``") scannable
+      this.position = Math.max(searchFrom, buffer.length - 2)
+      return false
+    }
+    this.arrayStart = start
+    this.depth = 1
+    this.position = start + 1
+    return true
+  }
+}
@@ -0,0 +1,75 @@
+/**
+ * DECL Spec Thumbnails
+ *
+ * A small wireframe of a spec's view as an SVG data URL: one bar per node in render order, indented by
+ * depth and styled by kind (containers, inputs, buttons, text). Built from the spec alone, so it works
+ * without rendering the spec (e.g. for saved library entries).
+ */
+
+import type { DeclNode, DeclSpec } from './types'
+
+const WIDTH = 160
+const HEIGHT = 100
+const PADDING = 8
+const ROW_HEIGHT = 8
+const ROW_GAP = 3
+const INDENT = 8
+const MAX_ROWS = Math.floor((HEIGHT - 2 * PADDING + ROW_GAP) / (ROW_HEIGHT + ROW_GAP))
+
+type NodeKind = 'container' | 'input' | 'button' | 'text'
+
+function nodeKind(type: string): NodeKind {
+  if (/button/i.test(type)) return 'button'
+  if (/input|field|textbox|textarea|select|checkbox/i.test(type)) return 'input'
+  if (/card|form|repeat|exist|container|stack|grid|list/i.test(type)) return 'container'
+  return 'text'
+}
+
+function childKeys(node: DeclNode): string[] {
+  const children = node.children ?? (Array.isArray(node.props?.children) ? node.props.children : [])
+  const content = Array.isArray(node.props?.content) ? node.props.content : []
+  const template = typeof node.props?.template === 'string' ? [node.props.template] : []
+  return [...children, ...content, ...template].filter((key): key is string => typeof key === 'string')
+}
+
+/**
+ * Render a spec's view as a wireframe thumbnail.
+ *
+ * @returns SVG data URL (usable as an img src)
+ */
+export function createSpecThumbnail(spec: DeclSpec): string {
+  const view = Array.isArray(spec.view) ? spec.view : []
+  const nodes = new Map(view.map((node) => [String(node.key), node]))
+  const referenced = new Set(view.flatMap(childKeys))
+  const roots = view.map((node) => String(node.key)).filter((key) => !referenced.has(key))
+
+  const rows: Array<{ depth: number; kind: NodeKind }> = []
+  const visited = new Set<string>()
+  const visit = (key: string, depth: number) => {
+    const node = nodes.get(key)
+    if (!node || visited.has(key) || rows.length >= MAX_ROWS) return
+    visited.add(key)
+    rows.push({ depth, kind: nodeKind(node.type) })
+    childKeys(node).forEach((child) => visit(child, depth + 1))
+  }
+  ;(roots.length > 0 ? roots : [...nodes.keys()]).forEach((key) => visit(key, 0))
+
+  const shapes = rows.map(({ depth, kind }, index) => {
+    const x = PADDING + Math.min(depth, 6) * INDENT
+    const y = PADDING + index * (ROW_HEIGHT + ROW_GAP)
+    const full = WIDTH - PADDING - x
+    switch (kind) {
+      case 'container':
+        return `<rect x="${x}" y="${y}" width="${full}" height="${ROW_HEIGHT}" rx="2" fill="#f3f4f6" stroke="#d1d5db"/>`
+      case 'input':
+        return `<rect x="${x}" y="${y}" width="${full}" height="${ROW_HEIGHT}" rx="2" fill="#ffffff" stroke="#9ca3af"/>`
+      case 'button':
+        return `<rect x="${x}" y="${y}" width="${Math.min(40, full)}" height="${ROW_HEIGHT}" rx="2" fill="#3b82f6"/>`
+      default:
+        return `<rect x="${x}" y="${y + 2}" width="${Math.min(60, full)}" height="${ROW_HEIGHT - 4}" rx="1" fill="#6b7280"/>`
+    }
+  })
+
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${WIDTH}" height="${HEIGHT}" viewBox="0 0 ${WIDTH} ${HEIGHT}"><rect width="${WIDTH}" height="${HEIGHT}" fill="#ffffff"/>${shapes.join('')}</svg>`
+  return `data:image/svg+xml,${encodeURIComponent(svg)}`
+}
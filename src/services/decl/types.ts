@@ -3,6 +3,8 @@
  * Types used only inside the folder are defined here but not re-exported from index.
  */
 
+import type { LLMProvider } from '../llm'
+
 /**
  * A single node in the DECL view tree (instance of a component in the tree).
  */
@@ -11,6 +13,8 @@ export interface DeclNode {
   type: string
   props?: Record<string, any>
   children?: string[]
+  /** Set while the node's chunk is still streaming: props (and string values) may be incomplete */
+  partial?: boolean
 }
 
 /**
@@ -23,14 +27,62 @@ export type DeclView = DeclNode[]
  */
 export type DeclData = Record<string, any>
 
+/**
+ * Derived store values: store path → expression template over other paths (e.g. "order.total": "{qty * price}").
+ * Recomputed whenever the store changes; computed paths are read-only.
+ */
+export type DeclComputed = Record<string, string>
+
+/**
+ * Store paths that survive page reloads: their values are saved under key (in IndexedDB, or localStorage)
+ * and restored over the spec's data when a spec with the same key is rendered again.
+ */
+export interface DeclPersist {
+  key: string
+  paths: string[]
+}
+
 /**
  * UI render definition: view tree + data. The complete spec passed to the renderer.
  */
 export interface DeclSpec {
   view: DeclView
   data: DeclData
+  computed?: DeclComputed
+  persist?: DeclPersist
+}
+
+/**
+ * Names bound by enclosing Repeat nodes while rendering one row.
+ * paths map a name to an absolute store path (item -> "contacts.2"), so reads and writes through
+ * "{item.name}" or dataBind "item.name" reach that element; values hold plain values (index -> 2).
+ */
+export interface DeclScope {
+  paths: Record<string, string>
+  values: Record<string, unknown>
+}
+
+/**
+ * One action in an on* prop (e.g. Button onClick).
+ * - when: expression read from the store; the step is skipped when it is falsy
+ * - returns: result field → store path
+ * - onSuccess / onError: flows run after the step; onError sees "{error}", both see "{result}"
+ * Later params read the latest earlier result as "{result.field}".
+ */
+export interface DeclActionStep {
+  name: string
+  params?: Record<string, unknown>
+  returns?: Record<string, string>
+  when?: string | boolean
+  onSuccess?: DeclActionFlow
+  onError?: DeclActionFlow
 }
 
+/**
+ * Action config for on* props: a single step or a sequence run in order, stopping at the first failure.
+ */
+export type DeclActionFlow = DeclActionStep | DeclActionStep[]
+
 /**
  * Callback for streaming DECL generation updates.
  * Receives the current aggregated structure as it's being built from the stream.
@@ -40,11 +92,27 @@ export type DeclUpdateCallback = (update: DeclSpec) => void
 /**
  * A single streaming update (internal).
  * While streaming, the model outputs an array of these.
- * Each update has exactly one key: "view" or "data".
+ * Each update has exactly one key:
+ * - "view": upsert nodes by key
+ * - "data": deep-merge into data (arrays replaced)
+ * - "remove": delete nodes by key (and drop them from parents' children)
+ * - "unset": delete data keys by dot-separated path
+ * - "move": re-parent a node at a child index
+ * - "push": append items to a data array
+ * - "splice": remove and/or insert data array items at an index
+ * - "computed": add or replace computed entries by path
+ * - "persist": set (replace) the spec's persist section
  */
 export type DeclUpdate =
   | { view: DeclView }
   | { data: DeclData }
+  | { remove: string[] }
+  | { unset: string[] }
+  | { move: { key: string; parent: string; index?: number } }
+  | { push: { path: string; items: unknown[] } }
+  | { splice: { path: string; index: number; deleteCount?: number; items?: unknown[] } }
+  | { computed: DeclComputed }
+  | { persist: DeclPersist }
 
 /**
  * Context for the generate API. Caller provides component and action definitions
@@ -57,6 +125,12 @@ export interface DeclGenerateContext {
   actionDefinitions: Array<{ name: string; description: string; params?: Record<string, any>; returns?: Record<string, any> }>
   /** Called with the current DeclSpec on each streaming update. Optional. */
   onUpdate?: DeclUpdateCallback
+  /** LLM backend to call. Optional; defaults to getDefaultProvider() (OpenAI unless overridden). */
+  provider?: LLMProvider
+  /** Follow-up turns allowed to fix validation errors in the generated spec. Optional; defaults to 0 (no repair). */
+  maxRepairAttempts?: number
+  /** Called before each repair turn with the attempt number (1-based) and the errors being sent back. Optional. */
+  onRepair?: (attempt: number, diagnostics: DeclDiagnostic[]) => void
 }
 
 /**
@@ -70,3 +144,35 @@ export interface StreamParseResult {
   startIndex: number
   endIndex: number
 }
+
+/**
+ * Kind of problem found by validateDeclSpec.
+ */
+export type DeclDiagnosticCode =
+  | 'unknown-component'
+  | 'unknown-prop'
+  | 'wrong-type'
+  | 'invalid-value'
+  | 'missing-required'
+  | 'unknown-action'
+  | 'invalid-data-bind'
+  | 'invalid-expression'
+  | 'missing-child'
+
+/**
+ * A single validation finding for a DeclSpec.
+ */
+export interface DeclDiagnostic {
+  code: DeclDiagnosticCode
+  severity: 'error' | 'warning'
+  message: string
+  /** Key of the node the finding belongs to. */
+  nodeKey?: string
+  /** Dot-separated path inside the node props (e.g. "onClick.params.value"). */
+  prop?: string
+}
+
+/**
+ * Context for validateDeclSpec: the same definitions passed to generate().
+ */
+export type DeclValidationContext = Pick<DeclGenerateContext, 'componentDefinitions' | 'actionDefinitions'>
@@ -1,7 +1,11 @@
 import React, { type ReactNode } from 'react'
 import { getComponentDefinition, type RenderContext } from '../../components/decl'
-import { getActionDefinition } from '../actions'
-import type { DeclData, StreamParseResult } from './types'
+import { createActionContext, createActionLogger, getActionDefinition } from '../actions'
+import type { DeclActionFlow, DeclActionStep, DeclData, DeclScope, StreamParseResult } from './types'
+import { resolveTemplate } from './expression'
+import { revalidateAfterWrite, validateDataSubtree } from './rules'
+import { resetForm, setFormsState, trackFormWrite } from './forms'
+import { checkSchemaValue } from './validator'
 
 // ---------------------------------------------------------------------------
 // JSON Extraction
@@ -13,8 +17,8 @@ import type { DeclData, StreamParseResult } from './types'
  * 2. Tries JSON.parse on the whole text first (fast path for complete JSON)
  * 3. Falls back to scanning for complete JSON structure (handles incomplete streaming)
  * 
- * TOOD: for now this function has no ability to handle incremental parsing. We can do that
- * later as performance improvement.
+ * Re-scans the whole text on every call; for streamed output use IncrementalJsonArrayParser,
+ * which keeps its position across appends.
  *
  * @param text - The text to parse
  * @param startIndex - Position to start scanning from (default 0).
@@ -115,7 +119,7 @@ export function tryParseJsonFromText(text: string, startIndex = 0): StreamParseR
 // Store path helpers
 // ---------------------------------------------------------------------------
 
-function getNestedValue(obj: Record<string, any>, path: string): any {
+export function getNestedValue(obj: Record<string, any>, path: string): any {
   const parts = path.split('.')
   let current = obj
   for (const part of parts) {
@@ -127,36 +131,71 @@ function getNestedValue(obj: Record<string, any>, path: string): any {
   return current
 }
 
-function setNestedValue(obj: Record<string, any>, path: string, value: any): void {
-  const parts = path.split('.')
-  let current = obj
-  for (let i = 0; i < parts.length - 1; i++) {
-    const part = parts[i]
-    if (!(part in current) || typeof current[part] !== 'object' || current[part] === null) {
-      current[part] = {}
-    }
-    current = current[part]
+/**
+ * Resolve a path against the Repeat scope: "item.name" becomes "contacts.2.name" when item is bound
+ * to "contacts.2". Paths that do not start with a scoped path name are returned unchanged.
+ */
+export function resolveScopedPath(path: string, scope?: DeclScope): string {
+  if (!scope) return path
+  const [head, ...rest] = path.split('.')
+  const target = scope.paths[head]
+  if (target === undefined) return path
+  return rest.length > 0 ? `${target}.${rest.join('.')}` : target
+}
+
+/**
+ * Create the scope for one row of a Repeat: name is bound to path (the row's store path) and
+ * "index" to the row index. Inner bindings shadow outer ones with the same name.
+ */
+export function createItemScope(scope: DeclScope | undefined, name: string, path: string, index: number): DeclScope {
+  const paths = { ...scope?.paths, [name]: path }
+  const values: Record<string, unknown> = { ...scope?.values, index }
+  delete values[name]
+  delete paths.index
+  return { paths, values }
+}
+
+/**
+ * Look up a "{path}" reference: scoped values first ({index}), then the store (scoped paths resolved).
+ */
+export function getScopedValue(path: string, dataStore: DeclData, scope?: DeclScope): any {
+  const [head, ...rest] = path.split('.')
+  if (scope && head in scope.values) {
+    const value = scope.values[head]
+    return rest.length > 0 && value != null && typeof value === 'object'
+      ? getNestedValue(value as Record<string, any>, rest.join('.'))
+      : rest.length > 0 ? undefined : value
   }
-  current[parts[parts.length - 1]] = value
+  const resolved = resolveScopedPath(path, scope)
+  return resolved.includes('.') ? getNestedValue(dataStore, resolved) : dataStore[resolved]
 }
 
 /**
- * Resolve {path} syntax in values using the data store.
+ * Store path of a plain "{path}" reference (Repeat scope applied), or undefined for anything else.
  */
-function resolveStoreVariables(value: any, dataStore: DeclData): any {
-  if (typeof value === 'string' && value.startsWith('{') && value.endsWith('}')) {
-    const path = value.slice(1, -1).trim()
-    return path.includes('.') ? getNestedValue(dataStore, path) : dataStore[path]
+function getReferencePath(value: unknown, scope?: DeclScope): string | undefined {
+  if (typeof value !== 'string') return undefined
+  const match = /^\{\s*([\w$]+(?:\.[\w$]+)*)\s*\}$/.exec(value)
+  return match ? resolveScopedPath(match[1], scope) : undefined
+}
+
+/**
+ * Resolve {expression} syntax in values using the data store (and the Repeat scope when rendering a row).
+ * "{path}" yields the raw value; text with embedded expressions is interpolated (see expression.ts).
+ */
+function resolveStoreVariables(value: any, dataStore: DeclData, scope?: DeclScope): any {
+  if (typeof value === 'string') {
+    return resolveTemplate(value, (path) => getScopedValue(path, dataStore, scope))
   }
   if (typeof value === 'object' && value !== null && !Array.isArray(value)) {
     const resolved: Record<string, any> = {}
     for (const [key, val] of Object.entries(value)) {
-      resolved[key] = resolveStoreVariables(val, dataStore)
+      resolved[key] = resolveStoreVariables(val, dataStore, scope)
     }
     return resolved
   }
   if (Array.isArray(value)) {
-    return value.map((item) => resolveStoreVariables(item, dataStore))
+    return value.map((item) => resolveStoreVariables(item, dataStore, scope))
   }
   return value
 }
@@ -195,6 +234,88 @@ export function deepMergeData(
   return result
 }
 
+/**
+ * Delete keys from data by dot-separated path (e.g. "profile.phone").
+ * Paths that do not exist are ignored.
+ * Does not mutate; copies only the objects along each deleted path.
+ */
+export function unsetDataPaths(
+  existing: DeclData,
+  paths: string[]
+): DeclData {
+  let result = existing
+  for (const path of paths) {
+    if (typeof path !== 'string' || !path) continue
+    result = unsetDataPath(result, path.split('.'))
+  }
+  return result
+}
+
+function unsetDataPath(current: DeclData, parts: string[]): DeclData {
+  const [head, ...rest] = parts
+  if (current == null || typeof current !== 'object' || !(head in current)) {
+    return current
+  }
+  if (Array.isArray(current)) {
+    // Array index: remove the element (no holes) or recurse into it
+    const items = [...current]
+    if (rest.length === 0) {
+      items.splice(Number(head), 1)
+    } else {
+      items[Number(head)] = unsetDataPath(items[Number(head)], rest)
+    }
+    return items as unknown as DeclData
+  }
+  const result = { ...current }
+  if (rest.length === 0) {
+    delete result[head]
+  } else {
+    result[head] = unsetDataPath(current[head], rest)
+  }
+  return result
+}
+
+/**
+ * Remove and/or insert items in the data array at a dot-separated path (Array.prototype.splice semantics).
+ * A missing path (or a non-array value) is treated as an empty array, so pushing creates the list.
+ * index is clamped to the array bounds; pass Infinity to append.
+ * Does not mutate; copies only the objects along the path.
+ */
+export function spliceDataItems(
+  existing: DeclData,
+  path: string,
+  index: number,
+  deleteCount: number,
+  items: unknown[]
+): DeclData {
+  return updateDataPath(existing, path.split('.'), (current) => {
+    const list = Array.isArray(current) ? [...current] : []
+    const start = Math.max(0, Math.min(index, list.length))
+    list.splice(start, Math.max(0, deleteCount), ...items)
+    return list
+  })
+}
+
+/**
+ * Set the value at a dot-separated path (creating missing objects along the way).
+ * Does not mutate; copies only the objects along the path.
+ */
+export function setDataPath(existing: DeclData, path: string, value: unknown): DeclData {
+  return updateDataPath(existing, path.split('.'), () => value)
+}
+
+function updateDataPath(current: any, parts: string[], updater: (value: any) => any): any {
+  const [head, ...rest] = parts
+  const container = current != null && typeof current === 'object' ? current : {}
+  const next = rest.length === 0 ? updater(container[head]) : updateDataPath(container[head], rest, updater)
+  if (Array.isArray(container)) {
+    const items = [...container]
+    items[Number(head)] = next
+    return items
+  }
+  return { ...container, [head]: next }
+}
+
 // ---------------------------------------------------------------------------
 // View Parsing and binding
 // ---------------------------------------------------------------------------
@@ -203,6 +324,11 @@ export function deepMergeData(
  * Create a data binding for a store path.
  * Returns a getter and setter function for two-way binding.
  *
+ * Writes re-check the validation rules of the Property they land in (see rules.ts) and update the
+ * state of the Form owning the path (see forms.ts). Consecutive writes to one path form a single undo entry.
+ * Inside a Repeat row, paths starting with the row name are item-relative ("item.email" binds to
+ * "contacts.2.email"), so edits write back to that element.
+ *
  * @param path - Dot-separated path in the data store (e.g., "user.name", "form.email")
  * @param context - Render context with dataStore and setDataStore
  * @returns Object with `get` (getter) and `set` (setter) functions
@@ -211,102 +337,237 @@ export function createDataBind(
   path: string,
   context: RenderContext
 ): { get: () => any; set: (value: any) => void } {
+  const storePath = resolveScopedPath(path, context.scope)
   return {
-    get: () => getNestedValue(context.dataStore, path),
+    get: () => getNestedValue(context.dataStore, storePath),
     set: (newValue: any) => {
+      if (context.readOnly) return
       context.setDataStore((prev) => {
-        const updated = { ...prev }
-        setNestedValue(updated, path, newValue)
-        return updated
-      })
+        const updated = setDataPath(prev, storePath, newValue)
+        // Check the rules of the Property written into (sets valid/error), then mark owning forms touched/dirty
+        return trackFormWrite(prev, revalidateAfterWrite(updated, storePath), storePath, context.declNodes)
+      }, { transaction: `bind:${storePath}` })
     }
   }
 }
 
 /**
- * Create a callback that invokes an action when called.
- * Caller assigns the returned callback to the desired prop (e.g. onClick, onSubmit).
- *
- * @param actionConfig - Object { name, params?, returns? } or string (action name, legacy)
- * @param context - Render context with loadedActions and dataStore
- * @returns Callback to assign to the prop, or undefined if config is invalid/missing
+ * Runtime context handed to an action handler (see ActionContext in services/actions).
  */
-export function createActionBind(
-  actionConfig: unknown,
-  context: RenderContext
-): ((...args: any[]) => any) | undefined {
-  if (actionConfig == null) return undefined
+function toActionContext(context: RenderContext, actionName: string, event: unknown) {
+  return createActionContext({
+    router: context.router,
+    getDataStore: context.getDataStore ?? (() => context.dataStore),
+    setDataStore: context.setDataStore,
+    setStoreValue: (path, value) =>
+      context.setDataStore((prev) => setDataPath(prev, resolveScopedPath(path, context.scope), value)),
+    nodeKey: context.nodeKey,
+    event,
+    signal: context.signal,
+    logger: createActionLogger(actionName),
+    history: context.history
+  })
+}
 
-  if (typeof actionConfig === 'object' && !Array.isArray(actionConfig)) {
-    const config = actionConfig as { name?: string; params?: Record<string, any>; returns?: Record<string, string> }
-    const actionName = config.name
-    if (typeof actionName !== 'string') return undefined
+// Numbers action runs, for their history transaction ids
+let actionRunCount = 0
 
-    const actionHandler = context.loadedActions.get(actionName)
-    if (!actionHandler) {
-      console.warn(`Action "${actionName}" not found`)
-      return undefined
+/** Outcome of running an action step or flow: the handler's result, or why it failed */
+type ActionOutcome = { ok: true; result: any } | { ok: false; error: string }
+
+/**
+ * Every step of a flow, including onSuccess/onError branches, or null if any step has no action name.
+ */
+function collectFlowSteps(flow: unknown): DeclActionStep[] | null {
+  const steps = Array.isArray(flow) ? flow : [flow]
+  const collected: DeclActionStep[] = []
+  for (const step of steps) {
+    if (step == null || typeof step !== 'object' || typeof step.name !== 'string') return null
+    collected.push(step)
+    for (const branch of [step.onSuccess, step.onError]) {
+      if (branch === undefined) continue
+      const branchSteps = collectFlowSteps(branch)
+      if (!branchSteps) return null
+      collected.push(...branchSteps)
     }
+  }
+  return collected
+}
 
-    const rawParams = config.params ?? {}
-    let actionParams = resolveStoreVariables(rawParams, context.dataStore)
-    if (actionName === 'submit' && (actionParams.data === undefined || actionParams.data === null)) {
-      actionParams = { ...actionParams, data: context.dataStore }
+/**
+ * Scope for a step: the render scope plus values such as {result} of the previous step or {error} in onError.
+ */
+function withStepValues(scope: DeclScope | undefined, values: Record<string, unknown>): DeclScope {
+  return { paths: { ...scope?.paths }, values: { ...scope?.values, ...values } }
+}
+
+/**
+ * Run one action: resolve its params against the latest store and check them against the action's
+ * params schema, check the Property rules it validates (tracking form state around it), call the
+ * handler, check the result against the returns schema, then reset forms and write the returns mapping.
+ */
+async function runActionStep(
+  step: DeclActionStep,
+  context: RenderContext,
+  scope: DeclScope | undefined,
+  event: unknown
+): Promise<ActionOutcome> {
+  const actionHandler = context.loadedActions.get(step.name)!
+  const actionDef = getActionDefinition(step.name)
+  const dataStore = context.getDataStore?.() ?? context.dataStore
+  const rawParams = step.params ?? {}
+  const actionParams = resolveStoreVariables(rawParams, dataStore, scope)
+  const paramErrors = checkSchemaValue(actionParams, { params: actionDef?.params ?? {} })
+  if (paramErrors.length > 0) {
+    return { ok: false, error: `Invalid params for "${step.name}": ${paramErrors.join('; ')}` }
+  }
+  // Store subtree (e.g. "{profile}") that must pass Property rules before the handler runs; "" = whole store
+  const validatedPath = actionDef?.validates !== undefined
+    ? getReferencePath(rawParams[actionDef.validates], scope) ?? ''
+    : null
+
+  if (validatedPath !== null) {
+    const { valid } = validateDataSubtree(dataStore, validatedPath)
+    if (!valid) {
+      // Show the errors on the fields and skip the action
+      const error = 'Please fix the highlighted fields'
+      context.setDataStore((prev) =>
+        setFormsState(validateDataSubtree(prev, validatedPath).data, validatedPath, context.declNodes, {
+          touched: true,
+          error
+        })
+      )
+      return { ok: false, error }
+    }
+    context.setDataStore((prev) =>
+      setFormsState(prev, validatedPath, context.declNodes, { submitting: true, error: null })
+    )
+  }
+
+  let result: any
+  let error: string | null = null
+  try {
+    result = await actionHandler(actionParams, toActionContext(context, step.name, event))
+    const resultErrors = actionDef?.returns ? checkSchemaValue(result, { value: actionDef.returns }, 'result') : []
+    if (resultErrors.length > 0) error = `Invalid result from "${step.name}": ${resultErrors.join('; ')}`
+  } catch (err: unknown) {
+    error = err instanceof Error ? err.message : String(err)
+  }
+  if (error !== null) {
+    if (validatedPath !== null) {
+      context.setDataStore((prev) => setFormsState(prev, validatedPath, context.declNodes, { submitting: false, error }))
     }
-    const returnsMapping = config.returns
-
-    return async (...args: any[]) => {
-      const firstArg = args.length > 0 ? args[0] : undefined
-      const isEvent =
-        firstArg != null &&
-        typeof firstArg === 'object' &&
-        ('nativeEvent' in firstArg ||
-          (typeof (firstArg as any).preventDefault === 'function' && 'target' in firstArg))
-      const params =
-        !isEvent && firstArg != null && typeof firstArg === 'object'
-          ? { ...actionParams, ...firstArg }
-          : actionParams
-
-      const result = await actionHandler(params)
-
-      if (returnsMapping && result !== undefined && result !== null) {
-        const actionDef = getActionDefinition(actionName)
-        if (actionDef?.returns) {
-          context.setDataStore((prev) => {
-            const updated = { ...prev }
-            for (const [attr, path] of Object.entries(returnsMapping)) {
-              if (typeof path === 'string' && result[attr] !== undefined) {
-                setNestedValue(updated, path, result[attr])
-              }
-            }
-            return updated
-          })
+    return { ok: false, error }
+  }
+  if (validatedPath !== null) {
+    context.setDataStore((prev) =>
+      setFormsState(prev, validatedPath, context.declNodes, { submitting: false, submitted: true })
+    )
+  }
+  if (actionDef?.resetsForm !== undefined && typeof actionParams[actionDef.resetsForm] === 'string') {
+    const formKey = actionParams[actionDef.resetsForm]
+    context.setDataStore((prev) => resetForm(prev, formKey, context.declNodes))
+  }
+
+  const returnsMapping = step.returns
+  if (returnsMapping && result !== undefined && result !== null && actionDef?.returns) {
+    context.setDataStore((prev) => {
+      let updated = prev
+      // attr may be a dot-separated path into the result (e.g. "user.name" of an HTTP response)
+      for (const [attr, path] of Object.entries(returnsMapping)) {
+        const value = typeof result === 'object' ? getNestedValue(result, attr) : undefined
+        if (typeof path === 'string' && value !== undefined) {
+          updated = setDataPath(updated, resolveScopedPath(path, context.scope), value)
         }
       }
+      return updated
+    })
+  }
+
+  return { ok: true, result }
+}
 
-      return result
+/**
+ * Run the steps of a flow in order. Each step sees the latest result of an earlier step as {result};
+ * steps whose `when` is falsy are skipped. The flow stops at the first failure, after running that step's onError.
+ *
+ * @param event - Payload the component passed to the callback (exposed to handlers as context.event)
+ */
+async function runActionFlow(
+  flow: DeclActionFlow,
+  context: RenderContext,
+  scope: DeclScope | undefined,
+  event: unknown
+): Promise<ActionOutcome> {
+  const steps = Array.isArray(flow) ? flow : [flow]
+  let outcome: ActionOutcome = { ok: true, result: scope?.values.result }
+  for (const step of steps) {
+    const stepScope = withStepValues(scope, { result: outcome.ok ? outcome.result : undefined })
+    const dataStore = context.getDataStore?.() ?? context.dataStore
+    if (step.when !== undefined && !resolveStoreVariables(step.when, dataStore, stepScope)) continue
+
+    const stepOutcome = await runActionStep(step, context, stepScope, event)
+    if (!stepOutcome.ok) {
+      if (step.onError) await runActionFlow(step.onError, context, withStepValues(stepScope, { error: stepOutcome.error }), event)
+      else console.warn(`Action "${step.name}" failed:`, stepOutcome.error)
+      return stepOutcome
+    }
+    // Steps without a result (toast, navigate) keep the previous one available as {result}
+    if (stepOutcome.result !== undefined) outcome = stepOutcome
+    if (step.onSuccess) {
+      const branch = await runActionFlow(step.onSuccess, context, withStepValues(stepScope, { result: stepOutcome.result }), event)
+      if (!branch.ok) return branch
     }
   }
+  return outcome
+}
 
-  if (typeof actionConfig === 'string') {
-    const actionHandler = context.loadedActions.get(actionConfig)
-    if (!actionHandler) {
-      console.warn(`Action "${actionConfig}" not found`)
+/**
+ * Create a callback that invokes an action (or a flow of actions) when called.
+ * Caller assigns the returned callback to the desired prop (e.g. onClick, onSubmit).
+ *
+ * @param actionConfig - Action step { name, params?, returns?, when?, onSuccess?, onError? }, an array of steps
+ *                       run in sequence, or string (action name, legacy; run as { name } without params)
+ * @param context - Render context with loadedActions and dataStore (handlers also get an ActionContext with the router)
+ * @returns Callback to assign to the prop (resolves to the last step's result, or undefined when a step
+ *          failed), or undefined if config is invalid/missing or the context is read-only
+ *
+ * @example
+ * ```ts
+ * // Save, then go back; show a toast if saving failed
+ * createActionBind([
+ *   { name: 'httpPost', params: { url: '/api/items', body: '{item}' }, onError: { name: 'toast', params: { message: '{error}' } } },
+ *   { name: 'navigate', params: { url: '/items/{result.id}' } }
+ * ], context)
+ * ```
+ */
+export function createActionBind(
+  actionConfig: unknown,
+  context: RenderContext
+): ((event?: unknown) => any) | undefined {
+  if (actionConfig == null || context.readOnly) return undefined
+  // A bare action name runs as a step without params, so its params and Property rules are checked too
+  if (typeof actionConfig === 'string') actionConfig = { name: actionConfig }
+
+  if (typeof actionConfig === 'object') {
+    const steps = collectFlowSteps(actionConfig)
+    if (!steps || steps.length === 0) return undefined
+    const missing = steps.filter((step) => !context.loadedActions.has(step.name))
+    if (missing.length > 0) {
+      missing.forEach((step) => console.warn(`Action "${step.name}" not found`))
       return undefined
     }
-    return (...args: any[]) => {
-      const randomParams = { value: Math.random().toString(36).substring(7) }
-      const firstArg = args.length > 0 ? args[0] : undefined
-      const isEvent =
-        firstArg != null &&
-        typeof firstArg === 'object' &&
-        ('nativeEvent' in firstArg ||
-          (typeof (firstArg as any).preventDefault === 'function' && 'target' in firstArg))
-      const params =
-        !isEvent && firstArg != null && typeof firstArg === 'object'
-          ? { ...randomParams, ...firstArg }
-          : randomParams
-      return actionHandler(params)
+    const flow = actionConfig as DeclActionFlow
+
+    return async (event?: unknown) => {
+      // All writes of this run (every step and branch) form one undo entry
+      const transaction = `action:${++actionRunCount}`
+      const runContext: RenderContext = {
+        ...context,
+        setDataStore: (updater) => context.setDataStore(updater, { transaction })
+      }
+      const outcome = await runActionFlow(flow, runContext, context.scope, event)
+      return outcome.ok ? outcome.result : undefined
     }
   }
 
@@ -358,8 +619,14 @@ export function renderDeclNode(
   // Get child keys (array of strings)
   const childKeys = Array.isArray(children) ? children.filter((c): c is string => typeof c === 'string') : []
 
-  // Resolve store variables; keep children so resolveProps can see it, but remove key
-  const processedProps: Record<string, any> = resolveStoreVariables({ ...props }, context.dataStore)
+  // Resolve store variables; keep children so resolveProps can see it, but remove key.
+  // Action configs (on* props) stay raw: their params are resolved when the action runs ({result}, {error})
+  const processedProps: Record<string, any> = Object.fromEntries(
+    Object.entries(props).map(([name, value]) => [
+      name,
+      /^on[A-Z]/.test(name) ? value : resolveStoreVariables(value, context.dataStore, context.scope)
+    ])
+  )
   if (topLevelChildren && Array.isArray(topLevelChildren)) {
     processedProps.children = topLevelChildren
   }
@@ -371,14 +638,22 @@ export function renderDeclNode(
   // Apply component-specific resolveProps if defined (keys → nodes, action configs → handlers)
   const componentDef = getComponentDefinition(type)
   if (componentDef?.resolveProps) {
-    Object.assign(processedProps, componentDef.resolveProps(processedProps, context))
+    Object.assign(processedProps, componentDef.resolveProps(processedProps, { ...context, nodeKey }))
   }
 
-  if (processedProps.children !== undefined) {
+  const element = processedProps.children !== undefined
     // Children were resolved by resolveProps (keys → rendered nodes), pass as prop
-    return React.createElement(Component, { key: nodeKey, ...processedProps })
-  } else {
+    ? React.createElement(Component, { key: nodeKey, ...processedProps })
     // No processed children, pass childNodes as React children
-    return React.createElement(Component, { key: nodeKey, ...processedProps }, ...childNodes)
-  }
+    : React.createElement(Component, { key: nodeKey, ...processedProps }, ...childNodes)
+
+  if (!node.partial) return element
+
+  // Node is still streaming: skeleton outline plus a typing caret until its chunk completes
+  return React.createElement(
+    'div',
+    { key: nodeKey, 'data-decl-partial': true, className: 'rounded outline-dashed outline-1 outline-blue-300 animate-pulse' },
+    element,
+    React.createElement('span', { className: 'inline-block w-1.5 h-4 ml-0.5 align-middle bg-blue-400' })
+  )
 }
@@ -0,0 +1,531 @@
+/**
+ * DECL Spec Validator
+ *
+ * Checks a DeclSpec against the component and action definitions it was generated from
+ * (the same definitions passed to generate()) and returns structured diagnostics.
+ * Never throws and never modifies the spec.
+ *
+ * Store references and expressions ("{path}", "{count > 0}", "Hi {name}") are resolved against
+ * spec.data before type checks; references that do not resolve are skipped, since the value may be
+ * written later at runtime. Expressions that do not parse are reported. Nodes inside a
+ * Repeat template are checked against the array's first item ("{item.x}", "{index}"), and computed
+ * values are applied to the data first.
+ */
+
+import type { DeclData, DeclNode, DeclPersist, DeclScope, DeclSpec, DeclView, DeclDiagnostic, DeclValidationContext } from './types'
+import { createItemScope, getNestedValue, getScopedValue, resolveScopedPath } from './utils'
+import { parseTemplate, resolveTemplate } from './expression'
+import { applyComputed, orderComputed } from './computed'
+import type { JSONSchema } from '../actions'
+
+type Report = (diagnostic: Omit<DeclDiagnostic, 'nodeKey'>) => void
+
+// ---------------------------------------------------------------------------
+// Schema helpers
+// ---------------------------------------------------------------------------
+
+/**
+ * Resolve "{expression}" syntax in a string value. Returns non-strings as-is.
+ */
+function resolveReference(value: unknown, data: DeclData, scope?: DeclScope): unknown {
+  if (typeof value !== 'string') return value
+  return resolveTemplate(value, (path) => getScopedValue(path, data, scope))
+}
+
+/**
+ * Report "{...}" segments that do not parse, in any string nested in value.
+ */
+function checkExpressions(value: unknown, path: string, report: Report): void {
+  if (typeof value === 'string') {
+    if (!value.includes('{')) return
+    for (const segment of parseTemplate(value)) {
+      if (segment.type === 'error') {
+        report({ code: 'invalid-expression', severity: 'error', prop: path, message: `"{${segment.source}}": ${segment.message}` })
+      }
+    }
+  } else if (Array.isArray(value)) {
+    value.forEach((item, index) => checkExpressions(item, `${path}.${index}`, report))
+  } else if (value != null && typeof value === 'object') {
+    for (const [name, item] of Object.entries(value)) checkExpressions(item, `${path}.${name}`, report)
+  }
+}
+
+function describeType(value: unknown): string {
+  if (value === null) return 'null'
+  if (Array.isArray(value)) return 'array'
+  return typeof value
+}
+
+function matchesType(value: unknown, type: unknown): boolean {
+  if (Array.isArray(type)) return type.some((t) => matchesType(value, t))
+  switch (type) {
+    case 'string': return typeof value === 'string'
+    case 'number': return typeof value === 'number'
+    case 'integer': return Number.isInteger(value)
+    case 'boolean': return typeof value === 'boolean'
+    case 'array': return Array.isArray(value)
+    case 'object': return value != null && typeof value === 'object' && !Array.isArray(value)
+    case 'null': return value === null
+    // Unknown or non-JSON types (e.g. "function") are not checked
+    default: return true
+  }
+}
+
+/**
+ * Check a value against a JSON Schema (type, enum, required, properties, items).
+ * Unknown nested keys are allowed (additionalProperties defaults to true).
+ *
+ * @param resolve - Maps each (nested) value before it is checked, e.g. resolving "{path}" references
+ */
+function checkValue(
+  value: unknown,
+  schema: JSONSchema,
+  path: string,
+  resolve: (value: unknown) => unknown,
+  report: Report
+): void {
+  const resolved = resolve(value)
+  if (resolved === undefined) return
+
+  if (schema.type !== undefined && !matchesType(resolved, schema.type)) {
+    report({
+      code: 'wrong-type',
+      severity: 'error',
+      prop: path,
+      message: `"${path}" must be ${Array.isArray(schema.type) ? schema.type.join(' | ') : schema.type}, got ${describeType(resolved)}`
+    })
+    return
+  }
+
+  if (Array.isArray(schema.enum) && !schema.enum.includes(resolved)) {
+    report({
+      code: 'invalid-value',
+      severity: 'error',
+      prop: path,
+      message: `"${path}" must be one of ${schema.enum.map((v: unknown) => JSON.stringify(v)).join(', ')}, got ${JSON.stringify(resolved)}`
+    })
+    return
+  }
+
+  if (Array.isArray(resolved) && schema.items && typeof schema.items === 'object') {
+    resolved.forEach((item, index) => checkValue(item, schema.items, `${path}.${index}`, resolve, report))
+    return
+  }
+
+  if (resolved != null && typeof resolved === 'object' && !Array.isArray(resolved)) {
+    const record = resolved as Record<string, unknown>
+    if (Array.isArray(schema.required)) {
+      for (const name of schema.required) {
+        if (record[name] === undefined) {
+          report({ code: 'missing-required', severity: 'error', prop: `${path}.${name}`, message: `"${path}.${name}" is required` })
+        }
+      }
+    }
+    if (schema.properties && typeof schema.properties === 'object') {
+      for (const [name, propSchema] of Object.entries(schema.properties as Record<string, JSONSchema>)) {
+        if (record[name] !== undefined) {
+          checkValue(record[name], propSchema, `${path}.${name}`, resolve, report)
+        }
+      }
+    }
+  }
+}
+
+/**
+ * Report params marked `required: true` (flat param maps used by component and action definitions).
+ */
+function checkRequiredParams(
+  values: Record<string, unknown>,
+  params: Record<string, JSONSchema>,
+  prefix: string,
+  report: Report
+): void {
+  for (const [name, schema] of Object.entries(params)) {
+    if (schema?.required === true && values[name] === undefined) {
+      report({ code: 'missing-required', severity: 'error', prop: `${prefix}${name}`, message: `"${prefix}${name}" is required` })
+    }
+  }
+}
+
+/**
+ * Check runtime values (e.g. the resolved params or the result of an action) against JSON Schemas.
+ * Unlike spec checks, strings are taken literally and missing required params are reported.
+ *
+ * @param values - Value to check; with params, a record of param values
+ * @param schema - JSON Schema for the whole value, or params: a flat param map (as in action definitions)
+ * @returns One message per problem (empty when the value matches)
+ */
+export function checkSchemaValue(
+  values: unknown,
+  schema: { value: JSONSchema } | { params: Record<string, JSONSchema> },
+  path = ''
+): string[] {
+  const messages: string[] = []
+  const report: Report = (diagnostic) => messages.push(diagnostic.message)
+  if ('value' in schema) {
+    checkValue(values, schema.value, path || 'value', (value) => value, report)
+    return messages
+  }
+  const record = values != null && typeof values === 'object' ? values as Record<string, unknown> : {}
+  const prefix = path ? `${path}.` : ''
+  for (const [name, paramSchema] of Object.entries(schema.params)) {
+    if (record[name] !== undefined) checkValue(record[name], paramSchema, `${prefix}${name}`, (value) => value, report)
+  }
+  checkRequiredParams(record, schema.params, prefix, report)
+  return messages
+}
+
+// ---------------------------------------------------------------------------
+// Node checks
+// ---------------------------------------------------------------------------
+
+/**
+ * True if the value looks like a Property object ({ type, name, value, ... }) used by Field.
+ */
+function isProperty(value: unknown): boolean {
+  return (
+    value != null &&
+    typeof value === 'object' &&
+    !Array.isArray(value) &&
+    typeof (value as Record<string, unknown>).type === 'string' &&
+    typeof (value as Record<string, unknown>).name === 'string'
+  )
+}
+
+/**
+ * Validate an action flow: a step, an array of steps run in sequence, or a legacy action name string.
+ * onSuccess / onError branches are validated as flows too. Only a whole config may be an action name:
+ * the runtime drops a flow with a string step in an array or branch.
+ */
+function checkActionFlow(
+  config: unknown,
+  prop: string,
+  data: DeclData,
+  context: DeclValidationContext,
+  report: Report,
+  scope?: DeclScope,
+  nested = false
+): void {
+  if (Array.isArray(config)) {
+    if (config.length === 0) {
+      report({ code: 'wrong-type', severity: 'error', prop, message: `"${prop}" must list at least one action` })
+    }
+    config.forEach((step, index) => checkActionFlow(step, `${prop}.${index}`, data, context, report, scope, true))
+    return
+  }
+  if (nested && typeof config === 'string') {
+    report({ code: 'wrong-type', severity: 'error', prop, message: `"${prop}" must be an action config { name, params? }, not an action name` })
+    return
+  }
+  checkActionConfig(config, prop, data, context, report, scope)
+  if (config == null || typeof config !== 'object') return
+  const step = config as { when?: unknown; onSuccess?: unknown; onError?: unknown }
+  if (step.when !== undefined && typeof step.when !== 'string' && typeof step.when !== 'boolean') {
+    report({ code: 'wrong-type', severity: 'error', prop: `${prop}.when`, message: `"${prop}.when" must be an expression string or boolean` })
+  }
+  for (const branch of ['onSuccess', 'onError'] as const) {
+    if (step[branch] !== undefined) checkActionFlow(step[branch], `${prop}.${branch}`, data, context, report, scope, true)
+  }
+}
+
+/**
+ * Validate an action config ({ name, params?, returns? } or legacy action name string).
+ */
+function checkActionConfig(
+  config: unknown,
+  prop: string,
+  data: DeclData,
+  context: DeclValidationContext,
+  report: Report,
+  scope?: DeclScope
+): void {
+  const name = typeof config === 'string'
+    ? config
+    : config != null && typeof config === 'object' && !Array.isArray(config)
+      ? (config as { name?: unknown }).name
+      : undefined
+  if (typeof name !== 'string') {
+    report({ code: 'wrong-type', severity: 'error', prop, message: `"${prop}" must be an action config { name, params? } or an array of them` })
+    return
+  }
+
+  const actionDef = context.actionDefinitions.find((def) => def.name === name)
+  if (!actionDef) {
+    report({ code: 'unknown-action', severity: 'error', prop: `${prop}.name`, message: `Unknown action "${name}"` })
+    return
+  }
+  if (typeof config === 'string') return
+
+  const params = (config as { params?: unknown }).params ?? {}
+  if (typeof params !== 'object' || Array.isArray(params) || params === null) {
+    report({ code: 'wrong-type', severity: 'error', prop: `${prop}.params`, message: `"${prop}.params" must be an object` })
+    return
+  }
+
+  const paramDefs = actionDef.params ?? {}
+  for (const [paramName, value] of Object.entries(params as Record<string, unknown>)) {
+    const schema = paramDefs[paramName]
+    if (!schema) {
+      report({
+        code: 'unknown-prop',
+        severity: 'warning',
+        prop: `${prop}.params.${paramName}`,
+        message: `Action "${name}" has no param "${paramName}"`
+      })
+      continue
+    }
+    checkValue(value, schema, `${prop}.params.${paramName}`, (item) => resolveReference(item, data, scope), report)
+  }
+  checkRequiredParams(params as Record<string, unknown>, paramDefs, `${prop}.params.`, report)
+}
+
+/**
+ * Collect the node keys a node references (children plus any param declared as a node-key or node-key items).
+ */
+function collectChildKeys(node: DeclNode, params: Record<string, JSONSchema>): string[] {
+  const props = node.props ?? {}
+  const keys: unknown[] = [
+    ...(Array.isArray(node.children) ? node.children : []),
+    ...(Array.isArray(props.children) ? props.children : [])
+  ]
+  for (const [name, schema] of Object.entries(params)) {
+    if (name !== 'children' && schema?.items?.format === 'node-key' && Array.isArray(props[name])) {
+      keys.push(...props[name])
+    }
+    if (schema?.format === 'node-key') {
+      keys.push(props[name])
+    }
+  }
+  return keys.filter((key): key is string => typeof key === 'string')
+}
+
+function checkNode(
+  node: DeclNode,
+  nodeKeys: Set<string>,
+  data: DeclData,
+  context: DeclValidationContext,
+  report: Report,
+  scope?: DeclScope
+): void {
+  const componentDef = context.componentDefinitions.find((def) => def.name === node.type)
+  const params: Record<string, JSONSchema> = componentDef?.params ?? {}
+
+  for (const childKey of collectChildKeys(node, params)) {
+    if (!nodeKeys.has(childKey)) {
+      report({ code: 'missing-child', severity: 'error', message: `Child key "${childKey}" does not match any node in the view` })
+    }
+  }
+
+  for (const [name, value] of Object.entries(node.props ?? {})) {
+    checkExpressions(value, name, report)
+  }
+
+  if (!componentDef) {
+    // Lowercase types render as DOM elements, anything else must be a registered component
+    if (typeof node.type !== 'string' || !/^[a-z]/.test(node.type)) {
+      report({ code: 'unknown-component', severity: 'error', message: `Unknown component type "${String(node.type)}"` })
+    }
+    return
+  }
+
+  const props = node.props ?? {}
+  for (const [name, value] of Object.entries(props)) {
+    if (name === 'children' || name === 'key') continue
+
+    const schema = params[name]
+    if (!schema) {
+      report({ code: 'unknown-prop', severity: 'warning', prop: name, message: `Component "${node.type}" has no prop "${name}"` })
+      continue
+    }
+
+    if (/^on[A-Z]/.test(name)) {
+      checkActionFlow(value, name, data, context, report, scope)
+      continue
+    }
+
+    checkValue(value, schema, name, (item) => resolveReference(item, data, scope), report)
+
+    if ((schema.format === 'property-path' || schema.format === 'array-path') && typeof value === 'string') {
+      const storePath = resolveScopedPath(value, scope)
+      const target = getNestedValue(data, storePath)
+      if (target === undefined) {
+        // Item-relative paths resolve against the first item, which may not exist yet; arrays may be
+        // filled at runtime (e.g. by action returns)
+        if (storePath === value && schema.format === 'property-path') {
+          report({ code: 'invalid-data-bind', severity: 'error', prop: name, message: `"${name}" path "${value}" does not exist in data` })
+        }
+      } else if (schema.format === 'property-path' && !isProperty(target)) {
+        report({
+          code: 'invalid-data-bind',
+          severity: 'error',
+          prop: name,
+          message: `"${name}" path "${value}" must point at a Property object { type, name, value }, got ${describeType(target)}`
+        })
+      } else if (schema.format === 'array-path' && !Array.isArray(target)) {
+        report({
+          code: 'invalid-data-bind',
+          severity: 'error',
+          prop: name,
+          message: `"${name}" path "${value}" must point at an array, got ${describeType(target)}`
+        })
+      }
+    }
+  }
+
+  checkRequiredParams(
+    { ...props, ...(node.children !== undefined && { children: node.children }) },
+    params,
+    '',
+    report
+  )
+}
+
+/**
+ * Check the persist section: a non-empty key and a list of paths. Paths missing from data are only
+ * warnings, since the value may be written at runtime.
+ */
+function checkPersist(persist: DeclPersist, data: DeclData, report: Report): void {
+  if (typeof persist.key !== 'string' || persist.key.trim() === '') {
+    report({ code: 'invalid-value', severity: 'error', prop: 'persist.key', message: 'persist.key must be a non-empty string' })
+  }
+  if (!Array.isArray(persist.paths)) {
+    report({ code: 'wrong-type', severity: 'error', prop: 'persist.paths', message: 'persist.paths must be an array of store paths' })
+    return
+  }
+  persist.paths.forEach((path, index) => {
+    if (typeof path !== 'string') {
+      report({ code: 'wrong-type', severity: 'error', prop: `persist.paths.${index}`, message: 'Persisted paths must be strings' })
+    } else if (getNestedValue(data, path) === undefined) {
+      report({ code: 'invalid-data-bind', severity: 'warning', prop: `persist.paths.${index}`, message: `Persisted path "${path}" does not exist in data` })
+    }
+  })
+}
+
+/**
+ * Scope of every node inside a Repeat template (and its descendants), with each enclosing Repeat's
+ * item bound to the first element of its array. Nodes outside any Repeat map to undefined.
+ */
+function collectScopes(view: DeclView, context: DeclValidationContext): Map<string, DeclScope | undefined> {
+  const parents = new Map<string, DeclNode>()
+  for (const node of view) {
+    const params = context.componentDefinitions.find((def) => def.name === node.type)?.params ?? {}
+    for (const childKey of collectChildKeys(node, params)) {
+      if (!parents.has(childKey)) parents.set(childKey, node)
+    }
+  }
+
+  const scopes = new Map<string, DeclScope | undefined>()
+  const scopeOf = (key: string, visiting: Set<string>): DeclScope | undefined => {
+    if (scopes.has(key)) return scopes.get(key)
+    const parent = parents.get(key)
+    // Guard against child cycles (reported as-is by the renderer, not here)
+    if (!parent || visiting.has(key)) return undefined
+    visiting.add(key)
+
+    let scope = scopeOf(String(parent.key), visiting)
+    const props = parent.props ?? {}
+    if (parent.type === 'Repeat' && props.template === key && typeof props.dataBind === 'string') {
+      const name = typeof props.as === 'string' && props.as ? props.as : 'item'
+      scope = createItemScope(scope, name, `${resolveScopedPath(props.dataBind, scope)}.0`, 0)
+    }
+    scopes.set(key, scope)
+    return scope
+  }
+  for (const node of view) scopeOf(String(node.key), new Set())
+  return scopes
+}
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/**
+ * Validate a DeclSpec against component and action definitions.
+ *
+ * @param spec - The spec to validate (usually the final result of generate())
+ * @param context - componentDefinitions and actionDefinitions (e.g. getAllComponentDefinitions(true), getAllActionDefinitions(true))
+ * @returns Diagnostics in view order; empty when the spec is valid
+ *
+ * @example
+ * ```ts
+ * const diagnostics = validateDeclSpec(spec, {
+ *   componentDefinitions: getAllComponentDefinitions(true),
+ *   actionDefinitions: getAllActionDefinitions(true)
+ * })
+ * const hasErrors = diagnostics.some((d) => d.severity === 'error')
+ * ```
+ */
+export function validateDeclSpec(spec: DeclSpec, context: DeclValidationContext): DeclDiagnostic[] {
+  const diagnostics: DeclDiagnostic[] = []
+  const view = Array.isArray(spec.view) ? spec.view : []
+  const computed = spec.computed ?? {}
+  // Nodes see computed values the same way the renderer exposes them
+  const data = applyComputed(spec.data ?? {}, computed)
+  const nodeKeys = new Set(view.map((node) => String(node.key)))
+  const scopes = collectScopes(view, context)
+
+  for (const node of view) {
+    const nodeKey = String(node.key)
+    checkNode(node, nodeKeys, data, context, (diagnostic) => diagnostics.push({ ...diagnostic, nodeKey }), scopes.get(nodeKey))
+  }
+
+  for (const [path, expression] of Object.entries(computed)) {
+    checkExpressions(expression, `computed.${path}`, (diagnostic) => diagnostics.push(diagnostic))
+  }
+  for (const path of orderComputed(computed).cycles) {
+    diagnostics.push({
+      code: 'invalid-expression',
+      severity: 'error',
+      prop: `computed.${path}`,
+      message: `Computed "${path}" depends on itself (directly or through other computed values)`
+    })
+  }
+  if (spec.persist) {
+    checkPersist(spec.persist, data, (diagnostic) => diagnostics.push(diagnostic))
+  }
+
+  return diagnostics
+}
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  value != null && typeof value === 'object' && !Array.isArray(value)
+
+/**
+ * Check that an untrusted value (e.g. an imported file) has the shape of a DeclSpec before it is
+ * rendered or passed to validateDeclSpec.
+ *
+ * @returns Problems found, e.g. 'view.2.type must be a string'; empty when value is a DeclSpec
+ */
+export function checkDeclSpecShape(value: unknown): string[] {
+  if (!isPlainObject(value)) return ['Spec must be an object with "view" and "data"']
+  const errors: string[] = []
+  if (!Array.isArray(value.view)) {
+    errors.push('view must be an array of nodes')
+  } else {
+    value.view.forEach((node, index) => {
+      if (!isPlainObject(node)) {
+        errors.push(`view.${index} must be an object`)
+        return
+      }
+      if (typeof node.key !== 'string') errors.push(`view.${index}.key must be a string`)
+      if (typeof node.type !== 'string') errors.push(`view.${index}.type must be a string`)
+      if (node.props !== undefined && !isPlainObject(node.props)) errors.push(`view.${index}.props must be an object`)
+      if (node.children !== undefined && !(Array.isArray(node.children) && node.children.every((child) => typeof child === 'string'))) {
+        errors.push(`view.${index}.children must be an array of node keys`)
+      }
+    })
+  }
+  if (!isPlainObject(value.data)) errors.push('data must be an object')
+  if (value.computed !== undefined) {
+    if (!isPlainObject(value.computed) || !Object.values(value.computed).every((expression) => typeof expression === 'string')) {
+      errors.push('computed must map store paths to expression strings')
+    }
+  }
+  if (value.persist !== undefined) {
+    const persist = value.persist
+    if (!isPlainObject(persist) || typeof persist.key !== 'string' || !Array.isArray(persist.paths) || !persist.paths.every((path) => typeof path === 'string')) {
+      errors.push('persist must be { key: string, paths: string[] }')
+    }
+  }
+  return errors
+}
@@ -0,0 +1,149 @@
+/**
+ * HTTP requests for the httpGet/httpPost/httpPut/httpDelete actions.
+ *
+ * Requests may only go to the app's own origin (e.g. the relative URL "/api/todos") or to a base URL
+ * on the allow-list. The list starts from VITE_HTTP_ALLOWED_BASES (comma-separated, e.g.
+ * "https://api.example.com/v1,http://localhost:4010") and can be changed at runtime with setHttpAllowList.
+ */
+
+export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'DELETE'
+
+export interface HttpRequest {
+  method: HttpMethod
+  url: string
+  headers?: Record<string, unknown>
+  /** Query params appended to the URL (null/undefined values are skipped) */
+  query?: Record<string, unknown>
+  /** Sent as JSON (strings are sent as-is); ignored for GET */
+  body?: unknown
+  /** Abort after this many milliseconds */
+  timeoutMs?: number
+  /** Abort when this signal fires (e.g. the view that started the request went away) */
+  signal?: AbortSignal
+}
+
+export interface HttpResponse {
+  status: number
+  ok: boolean
+  /** Parsed JSON body, or the text when the body is not JSON (null when empty) */
+  data: unknown
+}
+
+const DEFAULT_TIMEOUT_MS = 15000
+
+type Env = Record<string, string | undefined>
+
+// Environment and page origin, typed here because services also compile for Node (examples/)
+const runtime = globalThis as typeof globalThis & {
+  process?: { env?: Env }
+  location?: { origin: string }
+}
+
+/**
+ * Read the allow-list from environment variables.
+ * Supports both Vite (import.meta.env) and Node.js (globalThis.process.env) environments
+ */
+function getAllowListFromEnv(): string[] {
+  const value: unknown =
+    (typeof import.meta !== 'undefined' && (import.meta as ImportMeta & { env?: Env }).env?.VITE_HTTP_ALLOWED_BASES) ||
+    runtime.process?.env?.VITE_HTTP_ALLOWED_BASES ||
+    ''
+  return String(value).split(',').map((base) => base.trim()).filter(Boolean)
+}
+
+let allowedBases: string[] = getAllowListFromEnv()
+
+/**
+ * Replace the base URLs HTTP actions may call (same-origin URLs are always allowed).
+ *
+ * @example
+ * setHttpAllowList(['http://localhost:4010'])
+ */
+export function setHttpAllowList(bases: string[]): void {
+  allowedBases = bases.map((base) => base.trim()).filter(Boolean)
+}
+
+export function getHttpAllowList(): string[] {
+  return [...allowedBases]
+}
+
+/**
+ * True if url resolves to the app's own origin or starts with an allowed base URL.
+ * The URL is resolved the way fetch resolves it, so tricks like "/\evil.com" or "//evil.com" are
+ * judged by where they really go. Without a page origin (Node), only allow-listed absolute URLs pass.
+ * Bases match on whole path segments, so "https://api.example.com/v1" allows ".../v1/users" but not ".../v10".
+ */
+export function isHttpUrlAllowed(url: string): boolean {
+  const origin = runtime.location?.origin
+  let target: URL
+  try {
+    target = new URL(url, origin)
+  } catch {
+    return false
+  }
+  if (target.protocol !== 'http:' && target.protocol !== 'https:') return false
+  if (origin && target.origin === origin) return true
+  return allowedBases.some((base) => {
+    let allowed: URL
+    try {
+      allowed = new URL(base)
+    } catch {
+      return false
+    }
+    if (allowed.origin !== target.origin) return false
+    const basePath = allowed.pathname.replace(/\/+$/, '')
+    return target.pathname === basePath || target.pathname.startsWith(`${basePath}/`)
+  })
+}
+
+function appendQuery(url: string, query: Record<string, unknown> | undefined): string {
+  const entries = Object.entries(query ?? {}).filter(([, value]) => value != null)
+  if (entries.length === 0) return url
+  const search = new URLSearchParams(entries.map(([name, value]): [string, string] => [name, String(value)]))
+  return `${url}${url.includes('?') ? '&' : '?'}${search}`
+}
+
+/**
+ * Send a request to an allowed URL.
+ * Non-2xx responses are returned (ok: false) rather than thrown; network errors, timeouts and
+ * URLs outside the allow-list throw.
+ */
+export async function httpRequest(request: HttpRequest): Promise<HttpResponse> {
+  const url = appendQuery(request.url, request.query)
+  if (!isHttpUrlAllowed(url)) {
+    throw new Error(`URL "${request.url}" is not on the HTTP allow-list`)
+  }
+
+  const headers: Record<string, string> = { Accept: 'application/json' }
+  for (const [name, value] of Object.entries(request.headers ?? {})) {
+    if (value != null) headers[name] = String(value)
+  }
+  let body: string | undefined
+  if (request.method !== 'GET' && request.body !== undefined) {
+    body = typeof request.body === 'string' ? request.body : JSON.stringify(request.body)
+    if (!Object.keys(headers).some((name) => name.toLowerCase() === 'content-type')) {
+      headers['Content-Type'] = 'application/json'
+    }
+  }
+
+  const controller = new AbortController()
+  const timeout = setTimeout(() => controller.abort(), request.timeoutMs ?? DEFAULT_TIMEOUT_MS)
+  const signal = request.signal ? AbortSignal.any([controller.signal, request.signal]) : controller.signal
+  try {
+    const response = await fetch(url, { method: request.method, headers, body, signal })
+    const text = await response.text()
+    let data: unknown = text === '' ? null : text
+    try {
+      if (text !== '') data = JSON.parse(text)
+    } catch {
+      // Not JSON: keep the text
+    }
+    return { status: response.status, ok: response.ok, data }
+  } catch (err: unknown) {
+    if (request.signal?.aborted) throw new Error(`Request to "${request.url}" was cancelled`)
+    if (controller.signal.aborted) throw new Error(`Request to "${request.url}" timed out`)
+    throw err
+  } finally {
+    clearTimeout(timeout)
+  }
+}
@@ -0,0 +1,55 @@
+/**
+ * JS Engine interface
+ *
+ * The template compiler (./compiler) runs template expressions and actions through a JSEngine for
+ * every strategy except BLOB. Engines that evaluate out of process (worker, iframe) should also
+ * implement evaluateExpressions so a render costs a single round trip. Kept free of DOM types so
+ * engines that run outside the browser (e.g. ./quickjsEngine under Node) can implement it.
+ *
+ * @module jsEngine
+ */
+
+/**
+ * Third argument of a template action: `(data, setData, { props, payload, emit }) => ...`
+ */
+export interface TemplateActionContext {
+  /** The template's props (see `props:` in the YAML), after defaults */
+  props: Record<string, unknown>
+  /** Value the action was invoked with, e.g. the payload of a child template's event */
+  payload?: unknown
+  /** Fire one of the template's `emits:` events; calls the matching on<Event> prop */
+  emit: (event: string, payload?: unknown) => void
+}
+
+export interface JSEngine {
+  /**
+   * Evaluate a template expression against the component data.
+   *
+   * @param expr - Expression without braces, e.g. "count + 1"
+   * @param context - Values visible to the expression by name
+   */
+  evaluateExpression(expr: string, context: Record<string, unknown>): Promise<unknown>
+  /**
+   * Evaluate all expressions of a render against the same context in one call, i.e. one round trip
+   * for engines that run elsewhere. Optional: the compiler falls back to evaluateExpression.
+   *
+   * @param signal - Cancels the call, which then rejects with an AbortError
+   * @returns Values in the order of `expressions` (undefined where evaluation failed)
+   */
+  evaluateExpressions?(
+    expressions: string[],
+    context: Record<string, unknown>,
+    signal?: AbortSignal
+  ): Promise<unknown[]>
+  /**
+   * Run an action, e.g. "(data, setData) => setData({ ...data, count: data.count + 1 })".
+   *
+   * @param setData - Receives the new data; function updates are resolved by the engine first
+   */
+  executeAction(
+    code: string,
+    data: Record<string, unknown>,
+    setData: (update: Record<string, unknown>) => void,
+    context?: TemplateActionContext
+  ): Promise<void>
+}
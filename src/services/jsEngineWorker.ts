@@ -0,0 +1,110 @@
+/**
+ * JS Engine Worker
+ *
+ * Dedicated worker behind WorkerEngine (./compiler). Evaluates template expressions and runs actions off
+ * the main thread, with no DOM access.
+ *
+ * Code is loaded as blob: modules instead of through new Function, so it runs under the app's CSP
+ * (script-src 'self' blob:). Each compiled module is cached by its source, so an expression is only
+ * imported the first time it is rendered.
+ *
+ * Protocol (all messages carry the request id):
+ * - evaluate -> results: values for a whole batch of expressions against one context
+ * - action   -> setData* / emit* then done: setData and emit calls are forwarded to the host as they
+ *   happen
+ *
+ * @module jsEngineWorker
+ */
+
+export type WorkerRequest =
+  | { type: 'evaluate'; id: number; expressions: string[]; context: Record<string, unknown> }
+  | {
+      type: 'action'
+      id: number
+      code: string
+      data: Record<string, unknown>
+      props: Record<string, unknown>
+      payload?: unknown
+    }
+
+export type WorkerResponse =
+  | { type: 'results'; id: number; results: Array<{ value?: unknown; error?: string }> }
+  | { type: 'setData'; id: number; update: unknown }
+  | { type: 'emit'; id: number; event: string; payload?: unknown }
+  | { type: 'done'; id: number; error?: string }
+
+const IDENTIFIER_PATTERN = /^[a-zA-Z_$][a-zA-Z0-9_$]*$/
+const MAX_CACHED_MODULES = 500
+
+const modules = new Map<string, Promise<{ default: (...args: unknown[]) => unknown }>>()
+
+function importSource(source: string): Promise<{ default: (...args: unknown[]) => unknown }> {
+  let module = modules.get(source)
+  if (!module) {
+    const url = URL.createObjectURL(new Blob([source], { type: 'text/javascript' }))
+    module = import(/* @vite-ignore */ url).finally(() => URL.revokeObjectURL(url))
+    if (modules.size >= MAX_CACHED_MODULES) {
+      modules.delete(modules.keys().next().value!)
+    }
+    modules.set(source, module)
+  }
+  return module
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error)
+}
+
+// Functions and symbols cannot be posted back to the host
+function toCloneable(value: unknown): unknown {
+  return typeof value === 'function' || typeof value === 'symbol' ? undefined : value
+}
+
+function post(message: WorkerResponse) {
+  self.postMessage(message)
+}
+
+async function evaluate(expressions: string[], context: Record<string, unknown>) {
+  const paramNames = Object.keys(context).filter(key => IDENTIFIER_PATTERN.test(key))
+  return Promise.all(
+    expressions.map(async (expr) => {
+      try {
+        const { default: evaluateExpression } = await importSource(
+          `export default ({ ${paramNames.join(', ')} }) => (${expr}\n)`
+        )
+        return { value: toCloneable(evaluateExpression(context)) }
+      } catch (error) {
+        return { error: errorMessage(error) }
+      }
+    })
+  )
+}
+
+async function runAction(request: Extract<WorkerRequest, { type: 'action' }>) {
+  const { id, data } = request
+  const { default: action } = await importSource(`export default (${request.code}\n)`)
+  const setData = (update: unknown) => {
+    // Function updates cannot be posted, so resolve them against the data the action was given
+    post({ type: 'setData', id, update: typeof update === 'function' ? update(data) : update })
+  }
+  const emit = (event: string, payload?: unknown) => post({ type: 'emit', id, event, payload })
+  await action(data, setData, { props: request.props, payload: request.payload, emit })
+}
+
+self.addEventListener('message', (event: MessageEvent<WorkerRequest>) => {
+  const request = event.data
+  if (request.type === 'evaluate') {
+    evaluate(request.expressions, request.context).then((results) => {
+      try {
+        post({ type: 'results', id: request.id, results })
+      } catch (error) {
+        // A result held something that cannot be cloned (e.g. an object with methods)
+        post({ type: 'results', id: request.id, results: results.map(() => ({ error: errorMessage(error) })) })
+      }
+    })
+  } else if (request.type === 'action') {
+    runAction(request)
+      .then(() => post({ type: 'done', id: request.id }))
+      .catch((error) => post({ type: 'done', id: request.id, error: errorMessage(error) }))
+  }
+})
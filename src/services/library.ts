@@ -0,0 +1,161 @@
+/**
+ * Library of saved DECL generations.
+ *
+ * Entries (name, prompt, model, timestamp, thumbnail and spec) live in the persistent storage from
+ * ./persistence. Each entry can be exported as a `.decl.json` file and imported again; imported files are
+ * checked against the DeclSpec shape before they are accepted.
+ */
+
+import { checkDeclSpecShape, createSpecThumbnail, type DeclSpec } from './decl'
+import { createStorageId, getDefaultStorage } from './persistence'
+
+// ============================================================================
+// Entries
+// ============================================================================
+
+const LIBRARY_INDEX_KEY = 'decl-library'
+const LIBRARY_KEY_PREFIX = 'decl-library:'
+
+export interface DeclLibraryEntry {
+  id: string
+  name: string
+  /** Prompt the spec was generated from (empty for hand-written specs) */
+  prompt: string
+  /** Model that generated the spec, when known */
+  model?: string
+  createdAt: number
+  /** Wireframe of the view (SVG data URL, see createSpecThumbnail) */
+  thumbnail: string
+  spec: DeclSpec
+}
+
+/** Entry without its spec, as listed in the library */
+export type DeclLibrarySummary = Omit<DeclLibraryEntry, 'spec'>
+
+/**
+ * Library entries, newest first.
+ */
+export async function listLibrary(storage = getDefaultStorage()): Promise<DeclLibrarySummary[]> {
+  return (await storage.get<DeclLibrarySummary[]>(LIBRARY_INDEX_KEY)) ?? []
+}
+
+export async function loadLibraryEntry(id: string, storage = getDefaultStorage()): Promise<DeclLibraryEntry | undefined> {
+  return storage.get<DeclLibraryEntry>(LIBRARY_KEY_PREFIX + id)
+}
+
+/**
+ * Add a spec to the library.
+ *
+ * @returns The saved entry and the updated library
+ */
+export async function addToLibrary(
+  entry: Omit<DeclLibraryEntry, 'id' | 'thumbnail'>,
+  storage = getDefaultStorage()
+): Promise<{ entry: DeclLibraryEntry; library: DeclLibrarySummary[] }> {
+  const saved: DeclLibraryEntry = { ...entry, id: createStorageId(), thumbnail: createSpecThumbnail(entry.spec) }
+  await storage.set(LIBRARY_KEY_PREFIX + saved.id, saved)
+  const summary: DeclLibrarySummary = {
+    id: saved.id,
+    name: saved.name,
+    prompt: saved.prompt,
+    ...(saved.model && { model: saved.model }),
+    createdAt: saved.createdAt,
+    thumbnail: saved.thumbnail
+  }
+  const library = [summary, ...(await listLibrary(storage))]
+  await storage.set(LIBRARY_INDEX_KEY, library)
+  return { entry: saved, library }
+}
+
+/**
+ * @returns The updated library
+ */
+export async function deleteLibraryEntry(id: string, storage = getDefaultStorage()): Promise<DeclLibrarySummary[]> {
+  await storage.delete(LIBRARY_KEY_PREFIX + id)
+  const library = (await listLibrary(storage)).filter((item) => item.id !== id)
+  await storage.set(LIBRARY_INDEX_KEY, library)
+  return library
+}
+
+// ============================================================================
+// .decl.json files
+// ============================================================================
+
+export const DECL_FILE_EXTENSION = '.decl.json'
+
+const DECL_FILE_FORMAT = 'decl-spec'
+const DECL_FILE_VERSION = 1
+
+/**
+ * Contents of a .decl.json file.
+ */
+export interface DeclSpecFile {
+  format: typeof DECL_FILE_FORMAT
+  version: number
+  name: string
+  prompt: string
+  model?: string
+  /** ISO timestamp */
+  createdAt: string
+  spec: DeclSpec
+}
+
+export function serializeDeclSpecFile(entry: Omit<DeclLibraryEntry, 'id' | 'thumbnail'>): string {
+  const file: DeclSpecFile = {
+    format: DECL_FILE_FORMAT,
+    version: DECL_FILE_VERSION,
+    name: entry.name,
+    prompt: entry.prompt,
+    ...(entry.model && { model: entry.model }),
+    createdAt: new Date(entry.createdAt).toISOString(),
+    spec: entry.spec
+  }
+  return JSON.stringify(file, null, 2)
+}
+
+/**
+ * Parse a .decl.json file. A bare DeclSpec (e.g. JSON copied from the editor) is accepted too.
+ *
+ * @param text - File contents
+ * @param fileName - Used as the name when the file has none
+ * @throws Error describing why the file is not a valid spec
+ */
+export function parseDeclSpecFile(text: string, fileName = 'Imported spec'): Omit<DeclLibraryEntry, 'id' | 'thumbnail'> {
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(text)
+  } catch {
+    throw new Error(`${fileName} is not valid JSON`)
+  }
+  const file = parsed as Partial<DeclSpecFile> | null
+  const isWrapped = file != null && typeof file === 'object' && file.format === DECL_FILE_FORMAT
+  if (isWrapped && typeof file.version === 'number' && file.version > DECL_FILE_VERSION) {
+    throw new Error(`${fileName} was saved by a newer version (format version ${file.version})`)
+  }
+  const spec = isWrapped ? file.spec : parsed
+  const errors = checkDeclSpecShape(spec)
+  if (errors.length > 0) {
+    throw new Error(`${fileName} is not a valid DECL spec: ${errors.slice(0, 3).join('; ')}${errors.length > 3 ? ` (+${errors.length - 3} more)` : ''}`)
+  }
+  const createdAt = isWrapped && typeof file.createdAt === 'string' ? Date.parse(file.createdAt) : NaN
+  return {
+    name: isWrapped && typeof file.name === 'string' && file.name ? file.name : fileName.replace(/\.decl\.json$|\.json$/, ''),
+    prompt: isWrapped && typeof file.prompt === 'string' ? file.prompt : '',
+    ...(isWrapped && typeof file.model === 'string' && { model: file.model }),
+    createdAt: Number.isNaN(createdAt) ? Date.now() : createdAt,
+    spec: spec as DeclSpec
+  }
+}
+
+/**
+ * Download an entry as <name>.decl.json.
+ */
+export function downloadDeclSpecFile(entry: Omit<DeclLibraryEntry, 'id' | 'thumbnail'>): void {
+  const blob = new Blob([serializeDeclSpecFile(entry)], { type: 'application/json' })
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = `${entry.name.replace(/[^\w-]+/g, '-').replace(/^-+|-+$/g, '') || 'spec'}${DECL_FILE_EXTENSION}`
+  link.click()
+  URL.revokeObjectURL(url)
+}
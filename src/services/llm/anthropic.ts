@@ -0,0 +1,97 @@
+/**
+ * Anthropic Provider
+ *
+ * Talks to the Anthropic Messages API (`/v1/messages`). System messages are sent through the
+ * top-level `system` field; user/assistant messages are passed through as-is.
+ */
+
+import type { LLMProvider, LLMRequest } from './types'
+import { readEventStream, resolveOption, toResponseError } from './utils'
+
+const DEFAULT_MODEL = 'claude-3-5-haiku-latest'
+
+export interface AnthropicProviderOptions {
+  /** API key, or a getter so the key can change at runtime. */
+  apiKey: string | null | (() => string | null)
+  /** Model name. Defaults to "claude-3-5-haiku-latest". */
+  model?: string | (() => string)
+  /** Base URL. Defaults to "https://api.anthropic.com/v1". */
+  baseUrl?: string
+  /** Maximum tokens to generate (required by the API). Defaults to 8192. */
+  maxTokens?: number
+}
+
+/**
+ * Create a provider for the Anthropic Messages API.
+ */
+export function createAnthropicProvider(options: AnthropicProviderOptions): LLMProvider {
+  const name = 'Anthropic'
+  const endpoint = `${(options.baseUrl ?? 'https://api.anthropic.com/v1').replace(/\/+$/, '')}/messages`
+
+  async function post(request: LLMRequest, stream: boolean): Promise<Response> {
+    const apiKey = resolveOption(options.apiKey)
+    if (!apiKey) {
+      throw new Error(`${name} API key is required. Please set it in the settings.`)
+    }
+
+    const system = request.messages
+      .filter((message) => message.role === 'system')
+      .map((message) => message.content)
+      .join('\n\n')
+    const messages = request.messages.filter((message) => message.role !== 'system')
+
+    const response = await fetch(endpoint, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'x-api-key': apiKey,
+        'anthropic-version': '2023-06-01',
+        'anthropic-dangerous-direct-browser-access': 'true',
+      },
+      body: JSON.stringify({
+        model: resolveOption(options.model ?? DEFAULT_MODEL),
+        max_tokens: options.maxTokens ?? 8192,
+        ...(system && { system }),
+        messages,
+        ...(stream && { stream: true }),
+      }),
+      signal: request.signal,
+    })
+
+    if (!response.ok) {
+      throw await toResponseError(name, response)
+    }
+    return response
+  }
+
+  return {
+    name,
+    getModel: () => resolveOption(options.model ?? DEFAULT_MODEL),
+
+    async complete(request) {
+      const response = await post(request, false)
+      const data = await response.json() as { content?: Array<{ type?: string; text?: string }> }
+      const content = (data.content ?? [])
+        .filter((block) => block.type === 'text')
+        .map((block) => block.text ?? '')
+        .join('')
+      if (!content) {
+        throw new Error(`No content in ${name} response`)
+      }
+      return content
+    },
+
+    async stream(request, onUpdate) {
+      const response = await post(request, true)
+      return readEventStream(
+        name,
+        response,
+        (event: { type?: string; delta?: { type?: string; text?: string } } | null) =>
+          event?.type === 'content_block_delta' && event.delta?.type === 'text_delta'
+            ? event.delta.text
+            : undefined,
+        onUpdate
+      )
+    }
+  }
+}
@@ -0,0 +1,45 @@
+/**
+ * LLM service: pluggable providers used by the DECL and React generators.
+ * Re-exports the provider interface and the built-in providers (OpenAI, OpenAI-compatible/Ollama,
+ * Anthropic, Scripted), and holds the default provider used when a caller does not pass one.
+ */
+
+import { openAIProvider } from '../openai'
+import type { LLMProvider } from './types'
+
+export { type LLMMessage, type LLMRequest, type LLMProvider, type UpdateCallback } from './types'
+export { openAIProvider } from '../openai'
+export {
+  type OpenAICompatibleProviderOptions,
+  type OllamaProviderOptions,
+  createOpenAICompatibleProvider,
+  createOllamaProvider
+} from './openaiCompatible'
+export { type AnthropicProviderOptions, createAnthropicProvider } from './anthropic'
+export {
+  type ScriptedResponse,
+  type ScriptedProviderOptions,
+  type ScriptedProvider,
+  createScriptedProvider
+} from './scripted'
+
+/**
+ * Provider override set by the app (null = use OpenAI)
+ */
+let defaultProvider: LLMProvider | null = null
+
+/**
+ * Get the provider used when a caller does not pass one explicitly.
+ * @returns The provider set via setDefaultProvider, or the OpenAI provider
+ */
+export function getDefaultProvider(): LLMProvider {
+  return defaultProvider ?? openAIProvider
+}
+
+/**
+ * Set the provider used when a caller does not pass one explicitly.
+ * @param provider - The provider to use, or null to restore the OpenAI provider
+ */
+export function setDefaultProvider(provider: LLMProvider | null): void {
+  defaultProvider = provider
+}
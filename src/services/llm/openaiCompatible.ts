@@ -0,0 +1,106 @@
+/**
+ * OpenAI-compatible Provider
+ *
+ * Talks to any endpoint implementing the OpenAI `/chat/completions` API (OpenAI, Ollama, LM Studio, vLLM, ...).
+ */
+
+import type { LLMProvider, LLMRequest } from './types'
+import { readEventStream, resolveOption, toResponseError } from './utils'
+
+export interface OpenAICompatibleProviderOptions {
+  /** Display name used in error messages. Defaults to "OpenAI-compatible". */
+  name?: string
+  /** Base URL without the trailing `/chat/completions` (e.g. "https://api.openai.com/v1"). */
+  baseUrl: string
+  /** API key, or a getter so the key can change at runtime. Omit for local servers. */
+  apiKey?: string | null | (() => string | null)
+  /** Model name, or a getter so the model can change at runtime. */
+  model: string | (() => string)
+  /** If true, fail before calling the endpoint when no API key is available. */
+  requireApiKey?: boolean
+}
+
+/**
+ * Create a provider for an OpenAI-compatible chat completions endpoint.
+ *
+ * @example
+ * ```ts
+ * const provider = createOpenAICompatibleProvider({ baseUrl: 'http://localhost:1234/v1', model: 'qwen2.5' })
+ * const text = await provider.complete({ messages: [{ role: 'user', content: 'Hi' }] })
+ * ```
+ */
+export function createOpenAICompatibleProvider(options: OpenAICompatibleProviderOptions): LLMProvider {
+  const name = options.name ?? 'OpenAI-compatible'
+  const endpoint = `${options.baseUrl.replace(/\/+$/, '')}/chat/completions`
+
+  async function post(request: LLMRequest, stream: boolean): Promise<Response> {
+    const apiKey = options.apiKey != null ? resolveOption(options.apiKey) : null
+    if (!apiKey && options.requireApiKey) {
+      throw new Error(`${name} API key is required. Please set it in the settings.`)
+    }
+
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' }
+    if (apiKey) {
+      headers['Authorization'] = `Bearer ${apiKey}`
+    }
+
+    const response = await fetch(endpoint, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({
+        model: resolveOption(options.model),
+        messages: request.messages,
+        ...(stream && { stream: true }),
+      }),
+      signal: request.signal,
+    })
+
+    if (!response.ok) {
+      throw await toResponseError(name, response)
+    }
+    return response
+  }
+
+  return {
+    name,
+    getModel: () => resolveOption(options.model),
+
+    async complete(request) {
+      const response = await post(request, false)
+      const data = await response.json() as { choices?: Array<{ message?: { content?: string } }> }
+      const content = data.choices?.[0]?.message?.content
+      if (!content) {
+        throw new Error(`No content in ${name} response`)
+      }
+      return content
+    },
+
+    async stream(request, onUpdate) {
+      const response = await post(request, true)
+      return readEventStream(
+        name,
+        response,
+        (event: { choices?: Array<{ delta?: { content?: string } }> } | null) => event?.choices?.[0]?.delta?.content,
+        onUpdate
+      )
+    }
+  }
+}
+
+export interface OllamaProviderOptions {
+  /** Server URL including the OpenAI-compatible `/v1` prefix. Defaults to "http://localhost:11434/v1". */
+  baseUrl?: string
+  /** Model name (e.g. "llama3.1"). */
+  model: string
+}
+
+/**
+ * Create a provider for a local Ollama server through its OpenAI-compatible API.
+ */
+export function createOllamaProvider(options: OllamaProviderOptions): LLMProvider {
+  return createOpenAICompatibleProvider({
+    name: 'Ollama',
+    baseUrl: options.baseUrl ?? 'http://localhost:11434/v1',
+    model: options.model
+  })
+}
@@ -0,0 +1,99 @@
+/**
+ * Scripted Provider
+ *
+ * Deterministic provider that replays canned responses instead of calling a model.
+ * Used to run the generation pipeline offline (tests, demos, benchmarks).
+ */
+
+import type { LLMProvider, LLMRequest } from './types'
+
+/**
+ * One canned response: the full text (split into chunkSize pieces when streamed),
+ * or the exact list of chunks to stream.
+ */
+export type ScriptedResponse = string | string[]
+
+export interface ScriptedProviderOptions {
+  /**
+   * Responses replayed in order, one per call. A function receives the request and the call index.
+   * When the list runs out, the last response is repeated.
+   */
+  responses: ScriptedResponse[] | ((request: LLMRequest, callIndex: number) => ScriptedResponse)
+  /** Characters per streamed chunk when a response is given as a single string. Defaults to 16. */
+  chunkSize?: number
+}
+
+export interface ScriptedProvider extends LLMProvider {
+  /** Requests received so far, in call order. */
+  readonly requests: LLMRequest[]
+}
+
+/**
+ * Create a provider that replays canned responses.
+ *
+ * @example
+ * ```ts
+ * const provider = createScriptedProvider({
+ *   responses: ['[{ "view": [{ "key": "root", "type": "Label", "props": { "text": "Hi" } }] }]']
+ * })
+ * const spec = await generate('anything', { ...definitions, provider })
+ * ```
+ */
+export function createScriptedProvider(options: ScriptedProviderOptions): ScriptedProvider {
+  const chunkSize = Math.max(1, options.chunkSize ?? 16)
+  const requests: LLMRequest[] = []
+
+  function next(request: LLMRequest): string[] {
+    const callIndex = requests.length
+    requests.push(request)
+
+    const { responses } = options
+    let response: ScriptedResponse | undefined
+    if (typeof responses === 'function') {
+      response = responses(request, callIndex)
+    } else {
+      response = responses[Math.min(callIndex, responses.length - 1)]
+    }
+    if (response === undefined) {
+      throw new Error('Scripted provider has no response configured')
+    }
+
+    if (Array.isArray(response)) return response
+    const chunks: string[] = []
+    for (let i = 0; i < response.length; i += chunkSize) {
+      chunks.push(response.slice(i, i + chunkSize))
+    }
+    return chunks
+  }
+
+  return {
+    name: 'Scripted',
+    requests,
+
+    async complete(request) {
+      const content = next(request).join('')
+      if (!content) {
+        throw new Error('No content in Scripted response')
+      }
+      return content
+    },
+
+    async stream(request, onUpdate) {
+      const chunks = next(request)
+      let fullContent = ''
+      for (const [index, chunk] of chunks.entries()) {
+        if (request.signal?.aborted) {
+          throw new DOMException('The operation was aborted.', 'AbortError')
+        }
+        // Yield between chunks so consumers observe the stream incrementally
+        await Promise.resolve()
+        fullContent += chunk
+        onUpdate?.({ type: index === 0 ? 'replace' : 'append', text: chunk })
+      }
+      if (!fullContent) {
+        throw new Error('No content in Scripted response')
+      }
+      return fullContent
+    }
+  }
+}
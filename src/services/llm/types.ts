@@ -0,0 +1,42 @@
+/**
+ * LLM provider type definitions.
+ * A provider turns a list of chat messages into model output, either in one shot or streamed.
+ */
+
+/**
+ * A single chat message sent to the model.
+ */
+export interface LLMMessage {
+  role: 'system' | 'user' | 'assistant'
+  content: string
+}
+
+/**
+ * Request passed to a provider.
+ */
+export interface LLMRequest {
+  /** Conversation so far. System messages come first; the last message is usually from the user. */
+  messages: LLMMessage[]
+  /** Optional abort signal to cancel the request. */
+  signal?: AbortSignal
+}
+
+/**
+ * Update callback for streaming responses.
+ * The first delta is reported as 'replace', every following delta as 'append'.
+ */
+export type UpdateCallback = (update: { type: 'replace' | 'append'; text: string }) => void
+
+/**
+ * Pluggable LLM backend used by the generators.
+ */
+export interface LLMProvider {
+  /** Display name used in error messages (e.g. "OpenAI"). */
+  name: string
+  /** Model the next request will use (e.g. "gpt-4o-mini"), for labelling saved output. Optional. */
+  getModel?(): string
+  /** Send the request and resolve to the full response content. */
+  complete(request: LLMRequest): Promise<string>
+  /** Send the request, report deltas through onUpdate, and resolve to the full response content. */
+  stream(request: LLMRequest, onUpdate?: UpdateCallback): Promise<string>
+}
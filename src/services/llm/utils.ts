@@ -0,0 +1,91 @@
+import type { UpdateCallback } from './types'
+
+// ---------------------------------------------------------------------------
+// Response helpers
+// ---------------------------------------------------------------------------
+
+/**
+ * Build an error for a non-ok HTTP response.
+ * Reads `{ error: { message } }` from the body when available, else falls back to the status text.
+ */
+export async function toResponseError(providerName: string, response: Response): Promise<Error> {
+  const error = await response.json().catch(() => ({ error: { message: response.statusText } })) as { error?: { message?: string } }
+  return new Error(`${providerName} API error: ${error.error?.message || response.statusText}`)
+}
+
+/**
+ * Read a server-sent events stream and accumulate the text deltas.
+ * Lines are buffered across network chunks so a `data:` line split in two is still parsed.
+ *
+ * @param providerName - Used in error messages
+ * @param response - Fetch response with an SSE body
+ * @param extractDelta - Returns the text delta carried by one parsed `data:` payload (of the shape the
+ *   provider documents as TEvent), if any
+ * @param onUpdate - Optional callback for streaming updates
+ * @returns Promise that resolves to the full response content
+ */
+export async function readEventStream<TEvent>(
+  providerName: string,
+  response: Response,
+  extractDelta: (event: TEvent | null) => string | undefined,
+  onUpdate?: UpdateCallback
+): Promise<string> {
+  if (!response.body) {
+    throw new Error(`No response body from ${providerName}`)
+  }
+
+  const reader = response.body.getReader()
+  const decoder = new TextDecoder()
+  let buffer = ''
+  let fullContent = ''
+  let isFirstChunk = true
+
+  const handleLine = (line: string) => {
+    const trimmed = line.trim()
+    if (!trimmed || !trimmed.startsWith('data:')) return
+    const payload = trimmed.slice(5).trim()
+    if (payload === '[DONE]') return
+
+    try {
+      const delta = extractDelta(JSON.parse(payload) as TEvent | null)
+      if (delta) {
+        fullContent += delta
+        if (onUpdate) {
+          onUpdate({ type: isFirstChunk ? 'replace' : 'append', text: delta })
+          isFirstChunk = false
+        }
+      }
+    } catch {
+      // Skip invalid JSON lines
+    }
+  }
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read()
+      if (done) break
+
+      buffer += decoder.decode(value, { stream: true })
+      const lines = buffer.split('\n')
+      buffer = lines.pop() ?? ''
+      lines.forEach(handleLine)
+    }
+    buffer += decoder.decode()
+    if (buffer) handleLine(buffer)
+  } finally {
+    reader.releaseLock()
+  }
+
+  if (!fullContent) {
+    throw new Error(`No content in ${providerName} response`)
+  }
+
+  return fullContent
+}
+
+/**
+ * Resolve a value that may be given directly or through a getter.
+ */
+export function resolveOption<T>(option: T | (() => T)): T {
+  return typeof option === 'function' ? (option as () => T)() : option
+}
@@ -2,8 +2,12 @@
  * OpenAI API Service
  * 
  * Shared service for making OpenAI API calls with support for streaming and non-streaming responses.
+ * Holds the API key / model configuration and the OpenAI provider built on the LLM provider interface.
  */
 
+import type { LLMProvider, UpdateCallback } from './llm/types'
+import { createOpenAICompatibleProvider } from './llm/openaiCompatible'
+
 // ============================================================================
 // Configuration
 // ============================================================================
@@ -74,13 +78,24 @@ function getModel(): string {
 }
 
 // ============================================================================
-// Update Callback
+// Provider
 // ============================================================================
 
 /**
  * Update callback for streaming responses
  */
-export type UpdateCallback = (update: { type: 'replace' | 'append'; text: string }) => void
+export type { UpdateCallback } from './llm/types'
+
+/**
+ * OpenAI provider. Reads the API key and model on every request so settings changes apply immediately.
+ */
+export const openAIProvider: LLMProvider = createOpenAICompatibleProvider({
+  name: 'OpenAI',
+  baseUrl: 'https://api.openai.com/v1',
+  apiKey: getApiKey,
+  model: getModel,
+  requireApiKey: true
+})
 
 // ============================================================================
 // OpenAI API Calls
@@ -99,90 +114,15 @@ export async function callOpenAIStreaming(
   systemPrompt: string,
   onUpdate?: UpdateCallback
 ): Promise<string> {
-  const apiKey = getApiKey()
-  if (!apiKey) {
-    throw new Error('OpenAI API key is required. Please set it in the settings.')
-  }
-  const model = getModel()
-
-  const response = await fetch('https://api.openai.com/v1/chat/completions', {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      'Authorization': `Bearer ${apiKey}`,
-    },
-    body: JSON.stringify({
-      model,
+  return openAIProvider.stream(
+    {
       messages: [
-        {
-          role: 'system',
-          content: systemPrompt,
-        },
-        {
-          role: 'user',
-          content: userPrompt,
-        },
+        { role: 'system', content: systemPrompt },
+        { role: 'user', content: userPrompt },
       ],
-      stream: true,
-    }),
-  })
-
-  if (!response.ok) {
-    const error = await response.json().catch(() => ({ error: { message: response.statusText } })) as { error?: { message?: string } }
-    throw new Error(`OpenAI API error: ${error.error?.message || response.statusText}`)
-  }
-
-  if (!response.body) {
-    throw new Error('No response body from OpenAI')
-  }
-
-  // Read streaming response
-  const reader = response.body.getReader()
-  const decoder = new TextDecoder()
-  let fullContent = ''
-  let isFirstChunk = true
-
-  try {
-    while (true) {
-      const { done, value } = await reader.read()
-      if (done) break
-
-      const chunk = decoder.decode(value, { stream: true })
-      const lines = chunk.split('\n')
-
-      for (const line of lines) {
-        const trimmed = line.trim()
-        if (!trimmed || !trimmed.startsWith('data: ')) continue
-        if (trimmed === 'data: [DONE]') continue
-
-        try {
-          const data = JSON.parse(trimmed.slice(6))
-          const delta = data.choices?.[0]?.delta?.content
-          if (delta) {
-            fullContent += delta
-            if (onUpdate) {
-              if (isFirstChunk) {
-                onUpdate({ type: 'replace', text: delta })
-                isFirstChunk = false
-              } else {
-                onUpdate({ type: 'append', text: delta })
-              }
-            }
-          }
-        } catch (e) {
-          // Skip invalid JSON lines
-        }
-      }
-    }
-  } finally {
-    reader.releaseLock()
-  }
-
-  if (!fullContent) {
-    throw new Error('No content in OpenAI response')
-  }
-
-  return fullContent
+    },
+    onUpdate
+  )
 }
 
 /**
@@ -196,43 +136,10 @@ export async function callOpenAI(
   userPrompt: string,
   systemPrompt: string
 ): Promise<string> {
-  const apiKey = getApiKey()
-  if (!apiKey) {
-    throw new Error('OpenAI API key is required. Please set it in the settings.')
-  }
-  const model = getModel()
-
-  const response = await fetch('https://api.openai.com/v1/chat/completions', {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      'Authorization': `Bearer ${apiKey}`,
-    },
-    body: JSON.stringify({
-      model,
-      messages: [
-        {
-          role: 'system',
-          content: systemPrompt,
-        },
-        {
-          role: 'user',
-          content: userPrompt,
-        },
-      ],
-    }),
+  return openAIProvider.complete({
+    messages: [
+      { role: 'system', content: systemPrompt },
+      { role: 'user', content: userPrompt },
+    ],
   })
-
-  if (!response.ok) {
-    const error = await response.json().catch(() => ({ error: { message: response.statusText } })) as { error?: { message?: string } }
-    throw new Error(`OpenAI API error: ${error.error?.message || response.statusText}`)
-  }
-
-  const data = await response.json() as { choices?: Array<{ message?: { content?: string } }> }
-  const content = data.choices?.[0]?.message?.content
-  if (!content) {
-    throw new Error('No content in OpenAI response')
-  }
-
-  return content
 }
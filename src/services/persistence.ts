@@ -0,0 +1,266 @@
+/**
+ * Persistence for the DECL playground: state that should survive page reloads.
+ *
+ * - Storage: a small async key-value interface backed by IndexedDB, falling back to localStorage when
+ *   IndexedDB is missing or cannot be opened (e.g. some private browsing modes), and to memory when
+ *   neither is available.
+ * - Sessions: the prompt history, current spec and live data store of one /decl-gen session.
+ * - Persisted paths: the store paths a spec lists in `persist: { key, paths }`, saved per key.
+ */
+
+import type { DeclData, DeclPersist, DeclSpec } from './decl'
+import { getNestedValue, setDataPath } from './decl/utils'
+
+// ============================================================================
+// Storage
+// ============================================================================
+
+export interface KeyValueStorage {
+  get<T = unknown>(key: string): Promise<T | undefined>
+  set(key: string, value: unknown): Promise<void>
+  delete(key: string): Promise<void>
+}
+
+const DB_NAME = 'genui'
+const DB_STORE = 'kv'
+const LOCAL_STORAGE_PREFIX = 'genui:'
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+/**
+ * Storage in an IndexedDB object store (values are stored as structured clones).
+ * The database is opened on first use; operations reject if it cannot be opened.
+ */
+export function createIndexedDbStorage(dbName = DB_NAME): KeyValueStorage {
+  let db: Promise<IDBDatabase> | undefined
+  const open = () => {
+    db ??= new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(dbName, 1)
+      request.onupgradeneeded = () => request.result.createObjectStore(DB_STORE)
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => reject(request.error)
+      request.onblocked = () => reject(new Error(`IndexedDB "${dbName}" is blocked by another tab`))
+    })
+    return db
+  }
+  const run = async <T>(mode: IDBTransactionMode, operation: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+    const store = (await open()).transaction(DB_STORE, mode).objectStore(DB_STORE)
+    return requestToPromise(operation(store))
+  }
+  return {
+    get: (key) => run('readonly', (store) => store.get(key)),
+    set: async (key, value) => {
+      await run('readwrite', (store) => store.put(value, key))
+    },
+    delete: async (key) => {
+      await run('readwrite', (store) => store.delete(key))
+    }
+  }
+}
+
+/**
+ * Storage in localStorage (values are stored as JSON under prefix + key).
+ */
+export function createLocalStorage(prefix = LOCAL_STORAGE_PREFIX): KeyValueStorage {
+  return {
+    get: async (key) => {
+      const text = localStorage.getItem(prefix + key)
+      return text == null ? undefined : JSON.parse(text)
+    },
+    set: async (key, value) => localStorage.setItem(prefix + key, JSON.stringify(value)),
+    delete: async (key) => localStorage.removeItem(prefix + key)
+  }
+}
+
+/**
+ * Storage in memory (lost on reload); used when the browser offers no persistent storage.
+ */
+export function createMemoryStorage(): KeyValueStorage {
+  const values = new Map<string, unknown>()
+  return {
+    get: async <T>(key: string) => (values.has(key) ? structuredClone(values.get(key) as T) : undefined),
+    set: async (key, value) => {
+      values.set(key, structuredClone(value))
+    },
+    delete: async (key) => {
+      values.delete(key)
+    }
+  }
+}
+
+/**
+ * Use primary until one of its operations fails, then switch to fallback for good.
+ */
+function withFallback(primary: KeyValueStorage, fallback: KeyValueStorage): KeyValueStorage {
+  let current = primary
+  const call = async <T>(operation: (storage: KeyValueStorage) => Promise<T>): Promise<T> => {
+    if (current === primary) {
+      try {
+        return await operation(primary)
+      } catch (err) {
+        console.warn('Persistent storage failed, falling back:', err)
+        current = fallback
+      }
+    }
+    return operation(fallback)
+  }
+  return {
+    get: (key) => call((storage) => storage.get(key)),
+    set: (key, value) => call((storage) => storage.set(key, value)),
+    delete: (key) => call((storage) => storage.delete(key))
+  }
+}
+
+function hasLocalStorage(): boolean {
+  try {
+    return typeof localStorage !== 'undefined' && localStorage !== null
+  } catch {
+    // Accessing localStorage throws when storage is disabled
+    return false
+  }
+}
+
+/**
+ * Unique id for a stored record (session, library entry), sortable by creation time.
+ */
+export function createStorageId(): string {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`
+}
+
+let defaultStorage: KeyValueStorage | undefined
+
+/**
+ * Shared storage: IndexedDB, else localStorage, else memory.
+ */
+export function getDefaultStorage(): KeyValueStorage {
+  if (!defaultStorage) {
+    const fallback = hasLocalStorage() ? createLocalStorage() : createMemoryStorage()
+    defaultStorage = typeof indexedDB !== 'undefined' ? withFallback(createIndexedDbStorage(), fallback) : fallback
+  }
+  return defaultStorage
+}
+
+// ============================================================================
+// Sessions
+// ============================================================================
+
+/** Maximum number of sessions kept; the least recently updated are dropped */
+export const MAX_SESSIONS = 50
+
+const SESSION_INDEX_KEY = 'decl-sessions'
+const SESSION_KEY_PREFIX = 'decl-session:'
+
+export interface DeclSessionTurn {
+  prompt: string
+  mode: 'generate' | 'refine'
+  spec: DeclSpec
+  model?: string
+}
+
+/**
+ * One /decl-gen session: everything needed to pick up where the user left off.
+ */
+export interface DeclSession {
+  id: string
+  /** First prompt of the session (shown in the sidebar) */
+  title: string
+  createdAt: number
+  updatedAt: number
+  /** Text in the prompt input */
+  prompt: string
+  /** Completed generate/refine turns, oldest first */
+  turns: DeclSessionTurn[]
+  /** Spec shown in the editor and preview (may include manual edits) */
+  spec: DeclSpec | null
+  /** Live data store of the preview (edited values, action results) */
+  dataStore: DeclData | null
+}
+
+export type DeclSessionSummary = Pick<DeclSession, 'id' | 'title' | 'createdAt' | 'updatedAt'> & {
+  turnCount: number
+}
+
+/**
+ * Sessions, most recently updated first.
+ */
+export async function listSessions(storage = getDefaultStorage()): Promise<DeclSessionSummary[]> {
+  return (await storage.get<DeclSessionSummary[]>(SESSION_INDEX_KEY)) ?? []
+}
+
+export async function loadSession(id: string, storage = getDefaultStorage()): Promise<DeclSession | undefined> {
+  return storage.get<DeclSession>(SESSION_KEY_PREFIX + id)
+}
+
+/**
+ * Save a session (replacing any with the same id) and move it to the top of the list.
+ *
+ * @returns The updated session list
+ */
+export async function saveSession(session: DeclSession, storage = getDefaultStorage()): Promise<DeclSessionSummary[]> {
+  await storage.set(SESSION_KEY_PREFIX + session.id, session)
+  const summary: DeclSessionSummary = {
+    id: session.id,
+    title: session.title,
+    createdAt: session.createdAt,
+    updatedAt: session.updatedAt,
+    turnCount: session.turns.length
+  }
+  const sessions = [summary, ...(await listSessions(storage)).filter((item) => item.id !== session.id)]
+  for (const dropped of sessions.splice(MAX_SESSIONS)) {
+    await storage.delete(SESSION_KEY_PREFIX + dropped.id)
+  }
+  await storage.set(SESSION_INDEX_KEY, sessions)
+  return sessions
+}
+
+/**
+ * @returns The updated session list
+ */
+export async function deleteSession(id: string, storage = getDefaultStorage()): Promise<DeclSessionSummary[]> {
+  await storage.delete(SESSION_KEY_PREFIX + id)
+  const sessions = (await listSessions(storage)).filter((item) => item.id !== id)
+  await storage.set(SESSION_INDEX_KEY, sessions)
+  return sessions
+}
+
+// ============================================================================
+// Persisted store paths (spec.persist)
+// ============================================================================
+
+const PERSIST_KEY_PREFIX = 'decl-persist:'
+
+/**
+ * Values at paths (path → value); paths without a value are left out.
+ */
+export function pickDataPaths(data: DeclData, paths: string[]): Record<string, unknown> {
+  const values: Record<string, unknown> = {}
+  for (const path of paths) {
+    const value = getNestedValue(data, path)
+    if (value !== undefined) values[path] = value
+  }
+  return values
+}
+
+/**
+ * Write saved values (path → value) over data.
+ */
+export function applyDataPaths(data: DeclData, values: Record<string, unknown>): DeclData {
+  return Object.entries(values).reduce((next, [path, value]) => setDataPath(next, path, value), data)
+}
+
+/**
+ * Saved values of the persisted paths (only paths still listed in persist.paths).
+ */
+export async function loadPersistedData(persist: DeclPersist, storage = getDefaultStorage()): Promise<Record<string, unknown>> {
+  const saved = (await storage.get<Record<string, unknown>>(PERSIST_KEY_PREFIX + persist.key)) ?? {}
+  return Object.fromEntries(Object.entries(saved).filter(([path]) => persist.paths.includes(path)))
+}
+
+export async function savePersistedData(persist: DeclPersist, data: DeclData, storage = getDefaultStorage()): Promise<void> {
+  await storage.set(PERSIST_KEY_PREFIX + persist.key, pickDataPaths(data, persist.paths))
+}
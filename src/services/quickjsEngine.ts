@@ -0,0 +1,150 @@
+/**
+ * QuickJS Engine
+ *
+ * JSEngine backed by QuickJS compiled to WebAssembly (quickjs-emscripten). Template code runs in its own
+ * interpreter heap, so it has no access to the DOM, window, fetch or any other host API; the only ways
+ * out are the setData and emit functions handed to actions.
+ *
+ * Every call gets a fresh runtime with:
+ * - a memory limit (memoryLimitBytes) and a stack limit (maxStackSizeBytes)
+ * - a CPU budget (cpuLimit) counted in interrupt checks rather than milliseconds. QuickJS polls the
+ *   interrupt handler about every 10,000 bytecode instructions, so a runaway loop stops after the same
+ *   amount of work on every machine and every run, which keeps timeouts reproducible in tests.
+ *
+ * The WASM module is loaded lazily on first use. Nothing here touches the DOM, so the engine also runs
+ * in Node (see examples/quickjsEngineExample.ts).
+ *
+ * @module quickjsEngine
+ */
+
+import type { QuickJSContext, QuickJSHandle, QuickJSRuntime, QuickJSWASMModule } from 'quickjs-emscripten'
+import type { JSEngine, TemplateActionContext } from './jsEngine'
+
+export interface QuickJsEngineOptions {
+  /** Heap limit in bytes (default 16 MB) */
+  memoryLimitBytes?: number
+  /** Stack limit in bytes (default 256 KB; the WASM host stack itself is not much larger) */
+  maxStackSizeBytes?: number
+  /** Interrupt checks allowed per call, about 10,000 bytecode instructions each (default 1000) */
+  cpuLimit?: number
+}
+
+const DEFAULT_OPTIONS: Required<QuickJsEngineOptions> = {
+  memoryLimitBytes: 16 * 1024 * 1024,
+  maxStackSizeBytes: 256 * 1024,
+  cpuLimit: 1000
+}
+
+const IDENTIFIER_PATTERN = /^[a-zA-Z_$][a-zA-Z0-9_$]*$/
+
+let quickJsModule: Promise<QuickJSWASMModule> | null = null
+
+function loadQuickJs(): Promise<QuickJSWASMModule> {
+  quickJsModule ??= import('quickjs-emscripten').then(({ getQuickJS }) => getQuickJS())
+  return quickJsModule
+}
+
+/**
+ * Source that rebuilds a host value inside the VM. Functions and symbols are dropped, as with postMessage.
+ */
+function toVmLiteral(value: unknown): string {
+  return `JSON.parse(${JSON.stringify(JSON.stringify(value) ?? 'null')})`
+}
+
+function toError(vm: QuickJSContext, handle: QuickJSHandle): Error {
+  const dumped = vm.dump(handle)
+  handle.dispose()
+  const message = dumped && typeof dumped === 'object' ? `${dumped.name}: ${dumped.message}` : String(dumped)
+  if (message === 'InternalError: interrupted') {
+    return new Error('QuickJS CPU limit exceeded')
+  }
+  return new Error(message)
+}
+
+export class QuickJsEngine implements JSEngine {
+  private options: Required<QuickJsEngineOptions>
+
+  constructor(options: QuickJsEngineOptions = {}) {
+    this.options = { ...DEFAULT_OPTIONS, ...options }
+  }
+
+  async evaluateExpression(expr: string, context: Record<string, unknown>): Promise<unknown> {
+    try {
+      expr = expr.trim()
+      const paramNames = Object.keys(context).filter(key => IDENTIFIER_PATTERN.test(key))
+      return await this.run((vm) => {
+        const result = vm.evalCode(
+          `(({ ${paramNames.join(', ')} }) => (${expr}))(${toVmLiteral(context)})`
+        )
+        if (result.error) throw toError(vm, result.error)
+        const value = vm.dump(result.value)
+        result.value.dispose()
+        return value
+      })
+    } catch (error) {
+      console.error(`Error evaluating expression "${expr}":`, error)
+      return undefined
+    }
+  }
+
+  async executeAction(
+    code: string,
+    data: Record<string, unknown>,
+    setData: (update: Record<string, unknown>) => void,
+    context?: TemplateActionContext
+  ): Promise<void> {
+    try {
+      await this.run((vm, runtime) => {
+        const setDataHandle = vm.newFunction('setData', (update) => {
+          setData(vm.dump(update))
+        })
+        vm.setProp(vm.global, '__setData', setDataHandle)
+        setDataHandle.dispose()
+        const emitHandle = vm.newFunction('emit', (event, payload) => {
+          context?.emit(String(vm.dump(event)), payload && vm.dump(payload))
+        })
+        vm.setProp(vm.global, 'emit', emitHandle)
+        emitHandle.dispose()
+
+        const actionContext = `{ ...${toVmLiteral({ props: context?.props ?? {}, payload: context?.payload })}, emit }`
+        // Function updates (setData(prev => ...)) are resolved in the VM against the data the action was
+        // given, as the sandbox and worker do, since a function cannot cross to the host
+        const result = vm.evalCode(
+          `((data) => (${code}\n)(data, (update) => __setData(typeof update === 'function' ? update(data) : update), ${actionContext}))(${toVmLiteral(data)})`
+        )
+        if (result.error) throw toError(vm, result.error)
+
+        // Async actions: settle their promise jobs inside the same budget
+        const jobs = runtime.executePendingJobs()
+        if (jobs.error) {
+          result.value.dispose()
+          throw toError(jobs.error.context, jobs.error)
+        }
+        const state = vm.getPromiseState(result.value)
+        if (state.type === 'fulfilled' && !state.notAPromise) state.value.dispose()
+        result.value.dispose()
+        if (state.type === 'rejected') throw toError(vm, state.error)
+        if (state.type === 'pending') throw new Error('Action did not settle (QuickJS has no timers or I/O)')
+      })
+    } catch (error) {
+      console.error(`Error executing action:`, error)
+      throw error
+    }
+  }
+
+  private async run<T>(callback: (vm: QuickJSContext, runtime: QuickJSRuntime) => T): Promise<T> {
+    const quickJs = await loadQuickJs()
+    const runtime = quickJs.newRuntime()
+    runtime.setMemoryLimit(this.options.memoryLimitBytes)
+    runtime.setMaxStackSize(this.options.maxStackSizeBytes)
+    let interruptChecks = 0
+    runtime.setInterruptHandler(() => ++interruptChecks > this.options.cpuLimit)
+    const vm = runtime.newContext()
+    try {
+      return callback(vm, runtime)
+    } finally {
+      vm.dispose()
+      runtime.dispose()
+    }
+  }
+}
@@ -1,11 +1,12 @@
 /**
  * React Code Generator Service
  * 
- * This service generates React component code from natural language prompts using OpenAI.
+ * This service generates React component code from natural language prompts using an LLM provider
+ * (OpenAI by default, see services/llm).
  */
 
 import { getAllComponentDefinitions } from '../components/react'
-import { callOpenAI } from './openai'
+import { getDefaultProvider, type LLMProvider } from './llm'
 
 // ============================================================================
 // Code Extraction
@@ -45,6 +46,7 @@ function extractModuleCode(response: string): string {
  * Generate React component code from a natural language prompt
  * 
  * @param userPrompt - Natural language description of the UI to generate
+ * @param provider - LLM backend to call (defaults to getDefaultProvider())
  * @returns Promise that resolves to the generated ES6 module code as a string
  * 
  * @example
@@ -54,7 +56,8 @@ function extractModuleCode(response: string): string {
  * ```
  */
 export async function generate(
-  userPrompt: string
+  userPrompt: string,
+  provider: LLMProvider = getDefaultProvider()
 ): Promise<string> {
   // Build system prompt with component context
   const componentDefs = getAllComponentDefinitions(true)
@@ -100,8 +103,13 @@ export default function MyComponent(React, deps) {
 
 Generate only the ES6 module code, no explanations or markdown outside code blocks.`
 
-  // Call OpenAI API
-  const response = await callOpenAI(userPrompt, systemPrompt)
+  // Call the LLM provider
+  const response = await provider.complete({
+    messages: [
+      { role: 'system', content: systemPrompt },
+      { role: 'user', content: userPrompt },
+    ],
+  })
   
   // Extract module code from response
   const moduleCode = extractModuleCode(response)
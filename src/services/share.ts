@@ -0,0 +1,107 @@
+/**
+ * Shareable links for DECL specs.
+ *
+ * The spec's view, data and computed values are compressed (deflate) and base64url-encoded into the hash
+ * route, e.g. "#/decl-share?d=<payload>", so a link carries the whole UI with no server involved. The
+ * persist section is left out: a shared view is read-only and must not write into the recipient's storage.
+ * Links longer than MAX_SHARE_URL_LENGTH are refused; callers fall back to a downloadable .decl.json file.
+ */
+
+import { checkDeclSpecShape, type DeclSpec } from './decl'
+
+/** Route that renders a shared spec (payload in the "d" query param) */
+export const SHARE_ROUTE = '/decl-share'
+
+/** Longest link we hand out; longer URLs get truncated by some browsers, chat apps and mail clients */
+export const MAX_SHARE_URL_LENGTH = 8000
+
+/** Upper bound for a decompressed payload, so a crafted link cannot exhaust memory */
+const MAX_DECOMPRESSED_BYTES = 5 * 1024 * 1024
+const TOO_LARGE_MESSAGE = 'Shared spec is too large'
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = ''
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000))
+  }
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+}
+
+function fromBase64Url(text: string): Uint8Array<ArrayBuffer> {
+  const binary = atob(text.replace(/-/g, '+').replace(/_/g, '/'))
+  return Uint8Array.from(binary, (char) => char.charCodeAt(0))
+}
+
+async function readAll(stream: ReadableStream<Uint8Array>, maxBytes: number): Promise<Uint8Array> {
+  const chunks: Uint8Array[] = []
+  let length = 0
+  const reader = stream.getReader()
+  for (;;) {
+    const { done, value } = await reader.read()
+    if (done) break
+    length += value.length
+    if (length > maxBytes) {
+      await reader.cancel()
+      throw new Error(TOO_LARGE_MESSAGE)
+    }
+    chunks.push(value)
+  }
+  const bytes = new Uint8Array(length)
+  let offset = 0
+  for (const chunk of chunks) {
+    bytes.set(chunk, offset)
+    offset += chunk.length
+  }
+  return bytes
+}
+
+/**
+ * Compress the shareable part of a spec into a URL-safe string.
+ */
+export async function encodeSharePayload(spec: DeclSpec): Promise<string> {
+  const shared: DeclSpec = { view: spec.view, data: spec.data, ...(spec.computed && { computed: spec.computed }) }
+  const input = new Blob([JSON.stringify(shared)]).stream().pipeThrough(new CompressionStream('deflate-raw'))
+  return toBase64Url(await readAll(input, Infinity))
+}
+
+/**
+ * Restore a spec from a share payload.
+ *
+ * @throws Error when the payload is damaged (e.g. a truncated link) or does not hold a DeclSpec
+ */
+export async function decodeSharePayload(payload: string): Promise<DeclSpec> {
+  let text: string
+  try {
+    const output = new Blob([fromBase64Url(payload)]).stream().pipeThrough(new DecompressionStream('deflate-raw'))
+    text = new TextDecoder().decode(await readAll(output, MAX_DECOMPRESSED_BYTES))
+  } catch (err) {
+    if (err instanceof Error && err.message === TOO_LARGE_MESSAGE) throw err
+    throw new Error('The link is damaged or incomplete')
+  }
+  let spec: unknown
+  try {
+    spec = JSON.parse(text)
+  } catch {
+    throw new Error('The link is damaged or incomplete')
+  }
+  const errors = checkDeclSpecShape(spec)
+  if (errors.length > 0) {
+    throw new Error(`The link does not hold a valid DECL spec: ${errors[0]}`)
+  }
+  const { view, data, computed } = spec as DeclSpec
+  return { view, data, ...(computed && { computed }) }
+}
+
+/**
+ * Build a share link for a spec.
+ *
+ * @param baseUrl - Page URL without the hash (defaults to the current page)
+ * @returns The link, or ok: false with its length when it exceeds MAX_SHARE_URL_LENGTH
+ */
+export async function createShareLink(
+  spec: DeclSpec,
+  baseUrl = `${location.origin}${location.pathname}${location.search}`
+): Promise<{ ok: true; url: string } | { ok: false; length: number }> {
+  const url = `${baseUrl}#${SHARE_ROUTE}?d=${await encodeSharePayload(spec)}`
+  return url.length <= MAX_SHARE_URL_LENGTH ? { ok: true, url } : { ok: false, length: url.length }
+}